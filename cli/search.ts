@@ -0,0 +1,297 @@
+// ブラウザなしで探索を実行する CLI
+// 輪郭 JSON (アプリの JSON 出力、または旧形式の三角格子の ColoredCell[]) を読み込み、条件を満たす塗り分けを JSONL で出力する。
+// チェックポイントを定期的に書き出すので、中断 (Ctrl+C やプロセスの停止) した探索を --resume で続きから再開できる。
+// 再開時は --out のファイルをチェックポイント時点の長さまで切り詰めてから追記するので、結果は重複しない
+//
+//   npm run cli -- --shape shape.json [--mode exhaustive|random] [--seed N] [--symmetry] [--criteria 式]
+//                  [--max-results N] [--max-attempts N] [--time-limit 秒] [--shard i/k]
+//                  [--out results.jsonl] [--checkpoint ckpt.json] [--resume]
+import {
+  closeSync,
+  existsSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  truncateSync,
+  writeFileSync,
+  writeSync,
+} from 'node:fs'
+import { parseArgs } from 'node:util'
+import { createSearchContext, searchChunk, searchRandomBatch, RANDOM_BATCH_SIZE, type SearchHooks } from '../src/core/engine.ts'
+import { planExhaustive } from '../src/core/exhaustive.ts'
+import { DEFAULT_COLOR_SYSTEM, isShiftInvariant, weightTable, type ColorSystem } from '../src/core/colors.ts'
+import { coloringToJSON, DEFAULT_LATTICE, getLattice, parseColoringDocument, type CellCoord } from '../src/core/lattice.ts'
+import { randomSeed } from '../src/core/random.ts'
+import type { SearchResult } from '../src/core/search.ts'
+import { buildSymmetryGroup } from '../src/core/symmetry.ts'
+import { DEFAULT_CRITERIA, parseCriteria, type SearchCriteria } from '../src/core/criteria.ts'
+
+type Mode = 'exhaustive' | 'random'
+
+interface Checkpoint {
+  version: 1
+  mode: Mode
+  // 輪郭の同一性確認用 (格子とキーの並び)
+  shape: string
+  colorSystem: ColorSystem
+  // 探索条件の式 (整形済み)
+  criteria: string
+  symmetry: boolean
+  seed: number
+  shard: [number, number]
+  // 全探索: 完了したチャンクと途中のチャンク (走査済み候補数)
+  completedChunks: number[]
+  partial: { chunk: number; position: number } | null
+  // ランダム探索: 次に処理するバッチの通し番号 (このシャードの何番目か)
+  nextBatch: number
+  processed: number
+  pruned: number
+  evaluated: number
+  found: number
+  // チェックポイント時点の出力ファイルの長さ (--out 指定時)
+  outputBytes: number
+}
+
+const usage = `usage: npm run cli -- --shape <file> [options]
+
+  --shape <file>          輪郭 JSON (格子と色体系もこのファイルから読む)
+  --mode <mode>           exhaustive (既定) | random
+  --seed <n>              ランダム探索のシード (省略時は自動生成して表示)
+  --symmetry              全探索を対称性で削減する
+  --criteria <expr>       結果に残す条件 (既定 "${DEFAULT_CRITERIA}", 書式は src/core/criteria.ts)
+  --max-results <n>       発見数の上限 (ランダム探索ではバッチ単位で確認)
+  --max-attempts <n>      ランダム探索の試行数の上限
+  --time-limit <sec>      実行時間の上限
+  --shard <i/k>           チャンク・バッチを k 分割したうちの i 番目だけを担当する
+  --out <file>            結果の出力先 (省略時は標準出力)
+  --checkpoint <file>     チェックポイントの保存先
+  --checkpoint-interval <sec>  チェックポイントの保存間隔 (既定 30)
+  --resume                チェックポイントから再開する (出力は追記)
+`
+
+const fail = (message: string): never => {
+  process.stderr.write(`error: ${message}\n\n${usage}`)
+  process.exit(1)
+}
+
+const parseCount = (value: string | undefined, name: string): number | null => {
+  if (value === undefined) return null
+  const n = Number(value)
+  if (!Number.isInteger(n) || n < 0) fail(`${name} must be a non-negative integer`)
+  return n
+}
+
+const { values } = parseArgs({
+  options: {
+    shape: { type: 'string' },
+    mode: { type: 'string', default: 'exhaustive' },
+    seed: { type: 'string' },
+    symmetry: { type: 'boolean', default: false },
+    criteria: { type: 'string', default: DEFAULT_CRITERIA },
+    'max-results': { type: 'string' },
+    'max-attempts': { type: 'string' },
+    'time-limit': { type: 'string' },
+    shard: { type: 'string', default: '0/1' },
+    out: { type: 'string' },
+    checkpoint: { type: 'string' },
+    'checkpoint-interval': { type: 'string', default: '30' },
+    resume: { type: 'boolean', default: false },
+    help: { type: 'boolean', short: 'h', default: false },
+  },
+})
+
+if (values.help) {
+  process.stdout.write(usage)
+  process.exit(0)
+}
+
+if (!values.shape) fail('--shape is required')
+const mode = values.mode as Mode
+if (mode !== 'exhaustive' && mode !== 'random') fail(`unknown mode: ${values.mode}`)
+const shardMatch = /^(\d+)\/(\d+)$/.exec(values.shard)
+if (!shardMatch || Number(shardMatch[1]) >= Number(shardMatch[2])) fail(`invalid shard: ${values.shard}`)
+const shard: [number, number] = [Number(shardMatch![1]), Number(shardMatch![2])]
+const maxResults = parseCount(values['max-results'], '--max-results')
+const maxAttempts = parseCount(values['max-attempts'], '--max-attempts')
+const timeLimit = parseCount(values['time-limit'], '--time-limit')
+const checkpointInterval = parseCount(values['checkpoint-interval'], '--checkpoint-interval') ?? 30
+if (values.resume && !values.checkpoint) fail('--resume requires --checkpoint')
+// シードは再現に使うので、数として読めない値を 0 などに読み替えない
+if (values.seed !== undefined && !/^\d+$/.test(values.seed.trim())) fail('--seed must be a non-negative integer')
+
+// 輪郭の読み込み (色は無視し、座標と格子・色体系だけを使う)
+let shape: CellCoord[] = []
+let lattice = getLattice(DEFAULT_LATTICE)
+let colorSystem: ColorSystem = DEFAULT_COLOR_SYSTEM
+try {
+  const doc = parseColoringDocument(JSON.parse(readFileSync(values.shape!, 'utf8')))
+  lattice = getLattice(doc.lattice)
+  // 座標は格子のキーを経由して正規化する
+  shape = doc.cells.map(item => lattice.parseKey(lattice.key(item.coord)))
+  colorSystem = doc.colorSystem
+} catch (e) {
+  fail(`cannot read shape: ${(e as Error).message}`)
+}
+if (shape.length === 0) fail('shape is empty')
+const shapeId = `${lattice.id}:${shape.map(lattice.key).join(';')}`
+
+let criteria: SearchCriteria = parseCriteria(DEFAULT_CRITERIA)
+try {
+  criteria = parseCriteria(values.criteria, { n: shape.length, k: colorSystem.k })
+} catch (e) {
+  fail(`invalid criteria: ${(e as Error).message}`)
+}
+if (values.symmetry && !criteria.symmetric) fail('--symmetry cannot be used with criteria that name a vertex or a color')
+
+// チェックポイントの読み込み・初期化
+let checkpoint: Checkpoint = {
+  version: 1,
+  mode,
+  shape: shapeId,
+  colorSystem,
+  criteria: criteria.source,
+  symmetry: values.symmetry,
+  seed: values.seed !== undefined ? Number(values.seed) >>> 0 : randomSeed(),
+  shard,
+  completedChunks: [],
+  partial: null,
+  nextBatch: 0,
+  processed: 0,
+  pruned: 0,
+  evaluated: 0,
+  found: 0,
+  outputBytes: 0
+}
+if (values.resume && existsSync(values.checkpoint!)) {
+  const saved: Checkpoint = JSON.parse(readFileSync(values.checkpoint!, 'utf8'))
+  if (saved.version !== 1) fail('unsupported checkpoint version')
+  if (saved.shape !== shapeId) fail('checkpoint was made for a different shape')
+  if (JSON.stringify(saved.colorSystem) !== JSON.stringify(colorSystem)) fail('checkpoint was made for a different color system')
+  if (typeof saved.criteria !== 'string') fail('checkpoint has no criteria')
+  if (saved.criteria !== criteria.source) fail('checkpoint was made with different criteria')
+  if (saved.mode !== mode || saved.symmetry !== values.symmetry) fail('checkpoint was made with different options')
+  if (saved.shard[0] !== shard[0] || saved.shard[1] !== shard[1]) fail('checkpoint was made for a different shard')
+  checkpoint = saved
+}
+
+const saveCheckpoint = () => {
+  if (!values.checkpoint) return
+  // 書きかけのファイルを残さないよう一時ファイル経由で置き換える
+  const tmp = `${values.checkpoint}.tmp`
+  writeFileSync(tmp, JSON.stringify(checkpoint, null, 2))
+  renameSync(tmp, values.checkpoint)
+}
+
+// 結果は同期書き込みし、チェックポイントより先に出力へ届くようにする
+if (values.out && values.resume && existsSync(values.out)) {
+  truncateSync(values.out, checkpoint.outputBytes)
+}
+const outFd = values.out ? openSync(values.out, values.resume ? 'a' : 'w') : 1
+const writeResult = (result: SearchResult) => {
+  const line = JSON.stringify({
+    attempt: result.attempt.toString(),
+    colors: coloringToJSON(result.colors, lattice),
+    dets: result.dets.map(d => d.det.toString()),
+    connected: result.connected,
+    orbitSize: result.orbitSize,
+    invariants: result.invariants.map(d => d.toString()),
+    criteria: result.criteria,
+    seed: result.seed
+  })
+  checkpoint.outputBytes += writeSync(outFd, line + '\n')
+}
+
+const log = (message: string) => {
+  process.stderr.write(message + '\n')
+}
+
+const startTime = Date.now()
+let lastCheckpoint = Date.now()
+
+const limitReached = (): string | null => {
+  if (maxResults !== null && checkpoint.found >= maxResults) return 'max-results'
+  if (timeLimit !== null && Date.now() - startTime >= timeLimit * 1000) return 'time-limit'
+  if (maxAttempts !== null && mode === 'random' && checkpoint.processed >= maxAttempts) return 'max-attempts'
+  return null
+}
+
+// 途中のチャンク位置 (全探索のチェックポイント用)
+let currentChunk: { chunk: number; base: number; position: number } | null = null
+
+// 保存間隔が経っていればチェックポイントを書き出す (候補・バッチの区切りでのみ呼ぶこと)
+const maybeCheckpoint = () => {
+  if (Date.now() - lastCheckpoint < checkpointInterval * 1000) return
+  if (currentChunk) {
+    checkpoint.partial = { chunk: currentChunk.chunk, position: currentChunk.base + currentChunk.position }
+  }
+  saveCheckpoint()
+  lastCheckpoint = Date.now()
+  log(`processed ${checkpoint.processed.toLocaleString()}, pruned ${checkpoint.pruned.toLocaleString()}, found ${checkpoint.found}`)
+}
+
+const hooks: SearchHooks = {
+  onResult: result => {
+    writeResult(result)
+    checkpoint.found++
+  },
+  onProgress: (processed, pruned, evaluated) => {
+    checkpoint.processed += processed
+    checkpoint.pruned += pruned
+    checkpoint.evaluated += evaluated
+    // 全探索は候補ごとに区切れるが、ランダム探索はバッチの途中では保存しない
+    if (currentChunk) {
+      currentChunk.position += processed
+      maybeCheckpoint()
+    }
+  },
+  shouldStop: () => limitReached() !== null
+}
+
+log(`shape: ${shape.length} cells (${lattice.id}), colors: ${colorSystem.k} (${colorSystem.rule}), mode: ${mode}, criteria: ${criteria.source || '(none)'}, seed: ${checkpoint.seed}, shard: ${shard[0]}/${shard[1]}`)
+
+let stopReason: string | null = null
+if (mode === 'exhaustive') {
+  const plan = planExhaustive(shape.length, colorSystem.k)
+  const symmetry = values.symmetry
+    ? buildSymmetryGroup(lattice, shape, colorSystem.k, isShiftInvariant(weightTable(colorSystem)))
+    : null
+  const ctx = createSearchContext(lattice, shape, colorSystem, symmetry, criteria)
+  const completed = new Set(checkpoint.completedChunks)
+
+  for (let chunk = 0; chunk < plan.chunkCount; chunk++) {
+    if (chunk % shard[1] !== shard[0] || completed.has(chunk)) continue
+    stopReason = limitReached()
+    if (stopReason) break
+
+    const skip = checkpoint.partial?.chunk === chunk ? checkpoint.partial.position : 0
+    currentChunk = { chunk, base: skip, position: 0 }
+    const result = searchChunk(ctx, plan.prefixDigits, chunk, hooks, skip)
+    currentChunk = null
+    if (!result.completed) {
+      checkpoint.partial = { chunk, position: result.position }
+      stopReason = limitReached()
+      break
+    }
+    checkpoint.completedChunks.push(chunk)
+    checkpoint.partial = null
+  }
+} else {
+  const ctx = createSearchContext(lattice, shape, colorSystem, null, criteria)
+  for (;;) {
+    stopReason = limitReached()
+    if (stopReason) break
+    const size = maxAttempts !== null
+      ? Math.min(RANDOM_BATCH_SIZE, maxAttempts - checkpoint.processed)
+      : RANDOM_BATCH_SIZE
+    const batch = shard[0] + shard[1] * checkpoint.nextBatch
+    searchRandomBatch(ctx, checkpoint.seed, batch, hooks, size)
+    checkpoint.nextBatch++
+    maybeCheckpoint()
+  }
+}
+
+saveCheckpoint()
+if (outFd !== 1) closeSync(outFd)
+
+const elapsed = ((Date.now() - startTime) / 1000).toFixed(1)
+log(`${stopReason ? `stopped (${stopReason})` : 'done'}: processed ${checkpoint.processed.toLocaleString()}, pruned ${checkpoint.pruned.toLocaleString()}, evaluated ${checkpoint.evaluated.toLocaleString()}, found ${checkpoint.found} (${elapsed}s)`)
@@ -1,506 +1,1505 @@
-import { useState, useCallback, useMemo, useRef } from 'react'
+import { useState, useCallback, useMemo, useRef, useEffect, type PointerEvent as ReactPointerEvent } from 'react'
 import './App.css'
+import {
+  COLOR_NAMES,
+  COLOR_VALUES,
+  DEFAULT_COLOR_SYSTEM,
+  MAX_COLORS,
+  MIN_COLORS,
+  WEIGHT_RULE_LABELS,
+  colorInitial,
+  isShiftInvariant,
+  resizeTable,
+  weightTable,
+  type Color,
+  type ColorSystem,
+  type WeightRule,
+} from './core/colors.ts'
+import {
+  DEFAULT_LATTICE,
+  LATTICES,
+  coloringFromJSON,
+  coloringToJSON,
+  computeConnectedComponents,
+  getLattice,
+  parseColoringDocument,
+  type CellCoord,
+  type ColoringDocument,
+  connectedRegion,
+  type Lattice,
+  type LatticeId,
+  type Point,
+} from './core/lattice.ts'
+import { principalMinors } from './core/determinant.ts'
+import { buildColoredLaplacian, randomizeColors, vertexLabel, type SearchResult } from './core/search.ts'
+import { buildSymmetryGroup, countOrbits } from './core/symmetry.ts'
+import { planExhaustive } from './core/exhaustive.ts'
+import { CENSUS_MAX_SIZE, enumeratePolyforms, type BatchSearch, type CensusEntry } from './core/census.ts'
+import {
+  GENERATORS,
+  describeGenerator,
+  generateShape,
+  initialParams,
+  type GeneratorKind,
+  type GeneratorOffset,
+  type GeneratorParams,
+} from './core/generators.ts'
+import { DEFAULT_FIGURE_OPTIONS, figureToSvg, figureToTikz, type FigureOptions, type FigurePalette } from './core/figure.ts'
+import { MATRIX_FORMAT_EXTENSIONS, MATRIX_FORMAT_LABELS, formatMatrices, type MatrixExport, type MatrixFormat } from './core/matrixExport.ts'
+import { CRITERIA_TEMPLATES, DEFAULT_CRITERIA, parseCriteria, type SearchCriteria } from './core/criteria.ts'
+import { OBJECTIVES, OPTIMIZER_LABELS, type Objective, type OptimizerKind } from './core/optimize.ts'
+import { buildGraphOverlay } from './core/overlay.ts'
+import type { CellSensitivity } from './core/sensitivity.ts'
+import {
+  ENUMERATION_LIMIT,
+  canSampleTrees,
+  enumerateSpanningTrees,
+  sampleSpanningTree,
+  treeWeight,
+  type SpanningTree,
+} from './core/spanningTree.ts'
+import { compareGroups, criticalGroup, formatGroup } from './core/smith.ts'
+import { createHistory, currentState, moveHistory, pushHistory, type History } from './core/history.ts'
+import {
+  DEFAULT_PROJECT_SETTINGS,
+  libraryToJSON,
+  newProjectId,
+  parseLibraryFile,
+  projectResultCount,
+  projectResults,
+  shapeFromStored,
+  shapeToStored,
+  type ProjectRecord,
+  type ProjectSettings,
+} from './core/project.ts'
+import { mulberry32, randomSeed } from './core/random.ts'
+import {
+  appendResults,
+  countGroups,
+  createResultList,
+  materializeResult,
+  resultAttempt,
+  resultColors,
+  resultConnected,
+  resultInvariants,
+  resultListToStored,
+  resultMinors,
+  resultOrbit,
+  sortResults,
+  type ResultList,
+  type ResultSortKey,
+} from './core/resultStore.ts'
+import {
+  EMPTY_FILTER,
+  GROUPING_LABELS,
+  NO_RANGE,
+  countColorings,
+  detHistogram,
+  groupResults,
+  isFilterActive,
+  resultsToCsv,
+  resultsToJSON,
+  selectResults,
+  type HistogramBin,
+  type ResultFilter,
+  type ResultGrouping,
+  type ValueRange,
+} from './core/resultStats.ts'
+import { STAMP_LABELS, cellsInPolygon, stampAnchor, stampPolygon, type StampKind } from './core/tools.ts'
+import { downloadBlob, downloadText, svgToPng } from './download.ts'
+import { deleteProject, getLastProjectId, getProject, listProjects, saveProject, setLastProjectId } from './library.ts'
+import type { SearchMessage, SearchRequest } from './search.worker.ts'
+
+// 探索に使うワーカー数 (CPUコア数)
+const WORKER_COUNT = Math.max(1, navigator.hardwareConcurrency || 4)
+
+// 局所探索 (OptimizerKind) はランダム探索と同じく中断するまで続く
+type SearchMode = 'random' | 'exhaustive' | OptimizerKind
+
+const isOptimizerMode = (mode: SearchMode): mode is OptimizerKind => mode in OPTIMIZER_LABELS
+
+// 形の一覧 (センサスと定型の輪郭の掃引): 輪郭の並びと、探索が終わったものの結果
+interface CensusState {
+  latticeId: LatticeId
+  k: number
+  title: string
+  // CSV の名前 (拡張子なし)
+  fileName: string
+  criteria: string
+  shapes: CellCoord[][]
+  // 掃引のときの各輪郭のパラメータ (センサスでは空)
+  labels: string[]
+  // 探索が終わっていない輪郭は null
+  entries: (CensusEntry | null)[]
+}
 
-// 色の定義: 0=透過, 1=白, 2=黒, 3=灰色
-type Color = 0 | 1 | 2 | 3
-const COLOR_NAMES = ['transparent', 'white', 'black', 'gray'] as const
-const COLOR_VALUES = ['transparent', '#ffffff', '#1a1a1a', '#888888']
-
-// 相対的な色番号: white(1) < black(2) < gray(3) < white(1)
-function relativeColorNum(a: number, b: number): number {
-  const diff = ((b - 1) - (a - 1) + 3) % 3
-  return diff
+// 形の一覧のサムネイル (最良の塗り分け、なければ輪郭を白で描く)
+const thumbnailUrl = (cells: CellCoord[], entry: CensusEntry | null, k: number, lattice: Lattice): string => {
+  const colors = entry?.best ? entry.best.colors : new Map(cells.map(c => [lattice.key(c), 1]))
+  const svg = figureToSvg(colors, k, lattice, { ...DEFAULT_FIGURE_OPTIONS, gridLines: false }, 10)
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`
 }
 
-interface TriangleCoord {
-  x: number
-  y: number
-  isUp: boolean
+// 結果がないときの一覧 (追記はしない。探索のたびに createResultList で作り直す)
+const NO_RESULTS = createResultList({ keys: [], system: DEFAULT_COLOR_SYSTEM, lattice: DEFAULT_LATTICE, criteria: '', seed: null })
+
+// 結果表の 1 行の高さ (px)。表は見えている行と前後 RESULT_OVERSCAN 行だけを描く
+const RESULT_ROW_HEIGHT = 24
+const RESULT_OVERSCAN = 10
+// 探索中に表・統計を作り直す間隔 (ms)。進捗のたびに全件を絞り込み・並べ替えし直さない
+const RESULT_REFRESH_INTERVAL = 1000
+// 行列の一括出力・JSON の書き出しで確認を求める件数
+const EXPORT_CONFIRM_COUNT = 10_000
+// 統計のグループ表に出す行数 (件数の多い順)
+const GROUP_TABLE_LIMIT = 50
+// minor[0] 以外でグループ分けする件数の上限 (件ごとに主小行列式を求め直すため)
+const MINOR_GROUPING_LIMIT = 10_000
+
+// 感度のツールチップに出す主小行列式の数
+const SENSITIVITY_TITLE_MINORS = 8
+// 塗り分けの変更が止まってから感度の計算をワーカーで始めるまでの待ち時間 (ms)
+const SENSITIVITY_DELAY = 400
+
+// 変更からライブラリへ自動保存するまでの待ち時間 (ms)
+const AUTOSAVE_DELAY = 800
+
+// 保存された設定の探索モード・目的関数を検証する (不明なら既定値)
+const isSearchMode = (mode: string): mode is SearchMode =>
+  mode === 'exhaustive' || mode === 'random' || mode in OPTIMIZER_LABELS
+const isObjective = (objective: string): objective is Objective => objective in OBJECTIVES
+
+// 現在の状態からプロジェクトの保存形式を作る
+const buildProjectRecord = (
+  id: string,
+  name: string,
+  editor: EditorState,
+  results: ResultList,
+  settings: ProjectSettings
+): ProjectRecord => {
+  const lattice = getLattice(editor.latticeId)
+  return {
+    id,
+    name,
+    updatedAt: Date.now(),
+    lattice: editor.latticeId,
+    colorSystem: editor.colorSystem,
+    colors: [...editor.colors],
+    shape: shapeToStored(editor.shape, lattice),
+    settings,
+    results: resultListToStored(results)
+  }
 }
 
-interface ColoredTriangle {
-  coord: TriangleCoord
-  color: typeof COLOR_NAMES[number]
+// シード欄の値 (空なら新しく作る, 不正なら null)
+const resolveSeed = (text: string): number | null => {
+  const trimmed = text.trim()
+  if (trimmed === '') return randomSeed()
+  return /^\d+$/.test(trimmed) ? Number(trimmed) >>> 0 : null
 }
 
-// 隣接判定
-function areAdjacent(a: TriangleCoord, b: TriangleCoord): boolean {
-  const dx = b.x - a.x
-  const dy = b.y - a.y
+// 目的関数のグラフに残す点の数 (超えたら間引く)
+const MAX_TRACE_POINTS = 400
 
-  if (a.isUp) {
-    if (!b.isUp) {
-      if (dx === -1 && dy === 0) return true
-      if (dx === 1 && dy === 0) return true
-      if (dx === 0 && dy === -1) return true
-    }
-  } else {
-    if (b.isUp) {
-      if (dx === -1 && dy === 0) return true
-      if (dx === 1 && dy === 0) return true
-      if (dx === 0 && dy === 1) return true
-    }
-  }
-  return false
+interface TracePoint {
+  // 探索開始からの秒数
+  time: number
+  current: number
+  best: number
+}
+// cycle = クリックで色を巡回 (透過→各色→透過), pan = ドラッグで表示範囲を移動
+type Tool = 'cycle' | 'brush' | 'eraser' | 'fill' | 'stamp' | 'pan'
+
+const TOOL_LABELS: Record<Tool, string> = {
+  cycle: '巡回',
+  brush: 'ブラシ',
+  eraser: '消しゴム',
+  fill: '塗りつぶし',
+  stamp: 'スタンプ',
+  pan: '移動',
 }
 
-// 行列式計算 (LU分解)
-function determinant(matrix: number[][]): number {
-  const n = matrix.length
-  if (n === 0) return 1
-  if (n === 1) return matrix[0][0]
+const MAX_STAMP_SIZE = 8
 
-  const m = matrix.map(row => [...row])
-  let det = 1
+// PNG 出力の幅の選択肢 (px)
+const PNG_WIDTHS = [512, 1024, 2048, 4096]
 
-  for (let i = 0; i < n; i++) {
-    let maxRow = i
-    for (let k = i + 1; k < n; k++) {
-      if (Math.abs(m[k][i]) > Math.abs(m[maxRow][i])) {
-        maxRow = k
-      }
-    }
+type FigureFormat = 'svg' | 'png' | 'tikz'
 
-    if (Math.abs(m[maxRow][i]) < 1e-10) {
-      return 0
-    }
+// 履歴で管理する編集状態
+interface EditorState {
+  latticeId: LatticeId
+  colorSystem: ColorSystem
+  colors: Map<string, Color>
+  shape: CellCoord[]
+}
 
-    if (maxRow !== i) {
-      [m[i], m[maxRow]] = [m[maxRow], m[i]]
-      det *= -1
-    }
+const INITIAL_EDITOR_STATE: EditorState = {
+  latticeId: DEFAULT_LATTICE,
+  colorSystem: DEFAULT_COLOR_SYSTEM,
+  colors: new Map(),
+  shape: []
+}
 
-    det *= m[i][i]
+// 全色の連結成分数の合計
+const sumCounts = (counts: number[]) => counts.reduce((sum, c) => sum + c, 0)
+
+// SVG設定 - 正方形にフィットするようviewBoxを使用
+// 表示は中心 (格子座標) と倍率で決まり、倍率 1 で格子の間隔が scale ピクセル
+const scale = 30
+const svgSize = 558
+const MIN_ZOOM = 0.25
+const MAX_ZOOM = 6
+// ホイール 1 目盛り (deltaY = 100) あたりの拡大率
+const WHEEL_ZOOM_STEP = 1.2
+
+interface View {
+  cx: number
+  cy: number
+  zoom: number
+}
 
-    for (let k = i + 1; k < n; k++) {
-      const factor = m[k][i] / m[i][i]
-      for (let j = i; j < n; j++) {
-        m[k][j] -= factor * m[i][j]
-      }
-    }
+const INITIAL_VIEW: View = { cx: 0, cy: 0, zoom: 1 }
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom))
+
+// 表示範囲 (格子座標の長方形)
+const viewRect = (view: View): { min: Point; max: Point } => {
+  const half = svgSize / 2 / (scale * view.zoom)
+  return {
+    min: { x: view.cx - half, y: view.cy - half },
+    max: { x: view.cx + half, y: view.cy + half }
   }
+}
 
-  return det
+// セル全体が収まる表示 (余白 1 セル分)
+const fitView = (lattice: Lattice, cells: CellCoord[]): View | null => {
+  if (cells.length === 0) return null
+  const points = cells.flatMap(lattice.polygon)
+  const xs = points.map(p => p.x)
+  const ys = points.map(p => p.y)
+  const minX = Math.min(...xs)
+  const maxX = Math.max(...xs)
+  const minY = Math.min(...ys)
+  const maxY = Math.max(...ys)
+  const extent = Math.max(maxX - minX, maxY - minY) + 2
+  return { cx: (minX + maxX) / 2, cy: (minY + maxY) / 2, zoom: clampZoom(svgSize / (scale * extent)) }
 }
 
-// 連結成分数を計算（各色ごと）
-function computeConnectedComponents(colorMap: Map<string, Color>): { white: number; black: number; gray: number } {
-  const visited = new Set<string>()
-  const result = { white: 0, black: 0, gray: 0 }
-
-  const parseKey = (key: string): TriangleCoord => {
-    const parts = key.split(',')
-    return { x: parseInt(parts[0]), y: parseInt(parts[1]), isUp: parts[2] === 'u' }
-  }
-
-  const getKey = (x: number, y: number, isUp: boolean): string => `${x},${y},${isUp ? 'u' : 'd'}`
-
-  // DFSで連結成分を探索
-  const dfs = (startKey: string, targetColor: Color) => {
-    const stack = [startKey]
-    while (stack.length > 0) {
-      const key = stack.pop()!
-      if (visited.has(key)) continue
-      const color = colorMap.get(key)
-      if (color !== targetColor) continue
-      visited.add(key)
-
-      const coord = parseKey(key)
-      // 隣接する三角形を探索
-      const neighbors: TriangleCoord[] = coord.isUp
-        ? [
-            { x: coord.x - 1, y: coord.y, isUp: false },
-            { x: coord.x + 1, y: coord.y, isUp: false },
-            { x: coord.x, y: coord.y - 1, isUp: false }
-          ]
-        : [
-            { x: coord.x - 1, y: coord.y, isUp: true },
-            { x: coord.x + 1, y: coord.y, isUp: true },
-            { x: coord.x, y: coord.y + 1, isUp: true }
-          ]
-
-      for (const n of neighbors) {
-        const nKey = getKey(n.x, n.y, n.isUp)
-        if (!visited.has(nKey) && colorMap.get(nKey) === targetColor) {
-          stack.push(nKey)
-        }
-      }
-    }
-  }
+// 格子座標 (y 上向き) の多角形から SVG のパスへ (描画時に表示変換をかける)
+const polygonPath = (points: Point[]): string =>
+  `M ${points.map(p => `${p.x} ${p.y}`).join(' L ')} Z`
+
+// 文字を格子座標の点に置く変換 (y の反転と拡大を打ち消し、画面上で一定の大きさにする)
+const overlayTextTransform = (p: Point, zoom: number): string =>
+  `translate(${p.x} ${p.y}) scale(${1 / (scale * zoom)} ${-1 / (scale * zoom)})`
+
+// 局所探索の目的関数の推移 (線 = 最良値, 点 = 各ワーカーの現在値)
+function ObjectiveChart({ trace }: { trace: TracePoint[] }) {
+  const width = 300
+  const height = 80
+  const values = trace.flatMap(p => [p.current, p.best]).filter(Number.isFinite)
+  if (values.length === 0) return null
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  const span = max - min || 1
+  const duration = trace[trace.length - 1].time || 1
+  const x = (t: number) => (t / duration) * width
+  const y = (v: number) => height - ((v - min) / span) * (height - 8) - 4
+  const best = trace.filter(p => Number.isFinite(p.best)).map(p => `${x(p.time)},${y(p.best)}`).join(' ')
+  return (
+    <div className="objective-chart">
+      <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none">
+        {trace.filter(p => Number.isFinite(p.current)).map((p, i) => (
+          <circle key={i} cx={x(p.time)} cy={y(p.current)} r={1.2} className="trace-current" />
+        ))}
+        <polyline points={best} className="trace-best" vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="objective-axis">
+        <span>{min.toFixed(2)} – {max.toFixed(2)}</span>
+        <span>{duration.toFixed(1)}秒</span>
+      </div>
+    </div>
+  )
+}
 
-  // 各色について連結成分をカウント
-  for (const [key, color] of colorMap) {
-    if (color === 0 || visited.has(key)) continue
-    dfs(key, color)
-    if (color === 1) result.white++
-    else if (color === 2) result.black++
-    else if (color === 3) result.gray++
-  }
+// det の値のヒストグラム (棒をクリックするとその範囲で絞り込む)
+function Histogram({ bins, onSelect }: { bins: HistogramBin[]; onSelect: (bin: HistogramBin) => void }) {
+  const width = 300
+  const height = 80
+  const max = Math.max(0, ...bins.map(b => b.count))
+  if (max === 0) return null
+  const barWidth = width / bins.length
+  return (
+    <div className="objective-chart">
+      <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none">
+        {bins.map((bin, i) => {
+          const barHeight = Math.max(1, (bin.count / max) * (height - 4))
+          return (
+            <rect
+              key={i}
+              x={i * barWidth + 0.5}
+              y={height - barHeight}
+              width={Math.max(0.5, barWidth - 1)}
+              height={barHeight}
+              className="histogram-bar"
+              onClick={() => onSelect(bin)}
+            >
+              <title>{`${bin.label}: ${bin.count.toLocaleString()}件`}</title>
+            </rect>
+          )
+        })}
+      </svg>
+      <div className="objective-axis">
+        <span>{bins[0].label}</span>
+        <span>最多{max.toLocaleString()}件</span>
+        <span>{bins[bins.length - 1].label}</span>
+      </div>
+    </div>
+  )
+}
 
-  return result
+// 絞り込みの範囲の入力 (空欄は制限なし)
+function RangeInput<T extends number | bigint>({ label, range, parse, onChange }: {
+  label: string
+  range: ValueRange<T>
+  parse: (text: string) => T | null
+  onChange: (range: ValueRange<T>) => void
+}) {
+  return (
+    <label className="range-input">
+      <span>{label}</span>
+      <input
+        type="number"
+        value={range.min?.toString() ?? ''}
+        placeholder="最小"
+        onChange={(e) => onChange({ ...range, min: parse(e.target.value) })}
+      />
+      –
+      <input
+        type="number"
+        value={range.max?.toString() ?? ''}
+        placeholder="最大"
+        onChange={(e) => onChange({ ...range, max: parse(e.target.value) })}
+      />
+    </label>
+  )
 }
 
-// グリッドサイズ
-const GRID_SIZE = 17
+// 範囲の入力の解釈 (連結成分数は number, det は桁数の制限がない bigint)
+const parseCount = (text: string): number | null => (text.trim() === '' || !Number.isFinite(Number(text)) ? null : Number(text))
+const parseDet = (text: string): bigint | null => (/^-?\d+$/.test(text.trim()) ? BigInt(text.trim()) : null)
+
+// 感度のヒートマップの色 (条件を満たす塗り替えの割合: 0 = 赤, 1 = 緑)
+const sensitivityFill = (cell: CellSensitivity): string =>
+  `hsl(${(cell.validCount / Math.max(1, cell.recolorings.length)) * 120}, 80%, 45%)`
+
+// 感度のツールチップ (塗り替えごとに条件の可否・主小行列式・連結成分数)
+const sensitivityTitle = (cell: CellSensitivity): string => {
+  const lines = cell.recolorings.map(r => {
+    const minors = r.dets.slice(0, SENSITIVITY_TITLE_MINORS).map(d => d.det.toString()).join(', ')
+    const more = r.dets.length > SENSITIVITY_TITLE_MINORS ? ', …' : ''
+    return `→${colorInitial(r.color)} ${r.valid ? '○' : '×'} det: ${minors}${more} / 成分: ${r.connected.join('/')}`
+  })
+  return [`v${cell.index} (${cell.key}) ${colorInitial(cell.color)}: ${cell.validCount}/${cell.recolorings.length}`, ...lines].join('\n')
+}
 
-type SortKey = 'attempt' | 'white' | 'black' | 'gray' | 'total'
-type SearchMode = 'random' | 'exhaustive'
+// 割合の表示 (小さい値は指数表記)
+const formatRatio = (count: number, total: number): string => {
+  const percent = total > 0 ? (count / total) * 100 : 0
+  if (percent === 0 || percent >= 0.01) return `${percent.toFixed(2)}%`
+  return `${percent.toExponential(2)}%`
+}
 
 function App() {
-  const [colors, setColors] = useState<Map<string, Color>>(new Map())
+  const [history, setHistory] = useState<History<EditorState>>(() => createHistory('開始', INITIAL_EDITOR_STATE))
+  const { colors, colorSystem, latticeId, shape } = currentState(history)
   const [jsonInput, setJsonInput] = useState('')
-  const [shape, setShape] = useState<TriangleCoord[]>([])
   const [searchStatus, setSearchStatus] = useState('')
   const [isSearching, setIsSearching] = useState(false)
   const [searchMode, setSearchMode] = useState<SearchMode>('exhaustive')
+  const [objective, setObjective] = useState<Objective>('maxDet')
+  // ランダム探索・局所探索・「ランダム」ボタンのシード (空なら毎回新しく作る)
+  const [seedText, setSeedText] = useState('')
+  const [objectiveTrace, setObjectiveTrace] = useState<TracePoint[]>([])
   const [searchProgress, setSearchProgress] = useState(0)
-  const stopSearchRef = useRef(false)
-  const [foundResults, setFoundResults] = useState<{
-    colors: Map<string, Color>
-    dets: { i: number; det: number }[]
-    attempt: number
-    connected: { white: number; black: number; gray: number }
-  }[]>([])
-  const [sortKey, setSortKey] = useState<SortKey>('attempt')
+  const [useSymmetry, setUseSymmetry] = useState(false)
+  // 探索条件の式 (criteria.ts)
+  const [criteriaText, setCriteriaText] = useState(DEFAULT_CRITERIA)
+  const stopSearchRef = useRef<(() => void) | null>(null)
+  const workersRef = useRef<Worker[]>([])
+  const [foundResults, setFoundResults] = useState<ResultList>(NO_RESULTS)
+  // 探索中に表と統計に使う結果 (RESULT_REFRESH_INTERVAL ごとに foundResults から取り直す。探索中でなければ null)
+  const [resultSnapshot, setResultSnapshot] = useState<ResultList | null>(null)
+  const latestResultsRef = useRef(foundResults)
+  const [sortKey, setSortKey] = useState<ResultSortKey>('attempt')
+  // 結果表のスクロール位置と高さ (見えている行だけを描くのに使う)
+  const [tableViewport, setTableViewport] = useState({ top: 0, height: 600 })
+  const tableContainerRef = useRef<HTMLDivElement>(null)
+  // 臨界群の表記で絞り込む (空なら全て)
+  const [groupFilter, setGroupFilter] = useState('')
+  // det・連結成分数の範囲での絞り込み (臨界群は groupFilter で選ぶ)
+  const [resultFilter, setResultFilter] = useState<ResultFilter>(EMPTY_FILTER)
+  const [grouping, setGrouping] = useState<ResultGrouping>('none')
+  // 小行列式の値でまとめるときの i (det(L[i,i]))
+  const [groupMinor, setGroupMinor] = useState(0)
+  const [showStats, setShowStats] = useState(false)
+  // ランダム探索・局所探索で生成・評価した塗り分けの数 (条件を満たす割合の分母)
+  const [sampledCount, setSampledCount] = useState(0)
   const [sortAsc, setSortAsc] = useState(true)
   const [showJson, setShowJson] = useState(true)
   const [showMatrix, setShowMatrix] = useState(true)
+  // プロジェクトライブラリ (projectId は最後のセッションを復元するまで null)
+  const [projectId, setProjectId] = useState<string | null>(null)
+  const [projectName, setProjectName] = useState('')
+  const [projects, setProjects] = useState<ProjectRecord[]>([])
+  const [showLibrary, setShowLibrary] = useState(true)
+  const [showCensus, setShowCensus] = useState(false)
+  const [censusSize, setCensusSize] = useState(6)
+  const [census, setCensus] = useState<CensusState | null>(null)
+  // 全探索以外で一覧を探索するときの 1 形あたりの秒数
+  const [batchSeconds, setBatchSeconds] = useState(5)
+  const [showGenerator, setShowGenerator] = useState(false)
+  const [generatorKind, setGeneratorKind] = useState<GeneratorKind>('hexagon')
+  const [generatorParams, setGeneratorParams] = useState<GeneratorParams>(() => initialParams('hexagon'))
+  const [generatorOffset, setGeneratorOffset] = useState<GeneratorOffset>({ i: 0, j: 0 })
+  // 掃引するパラメータ ('*' なら全てのパラメータを同じ値にする)
+  const [sweepParam, setSweepParam] = useState('*')
+  const [sweepRange, setSweepRange] = useState({ from: 1, to: 4 })
+  // 条件を満たす塗り分けがある輪郭だけを表示する
+  const [censusValidOnly, setCensusValidOnly] = useState(false)
+  const libraryFileRef = useRef<HTMLInputElement>(null)
+  const [matrixFormat, setMatrixFormat] = useState<MatrixFormat>('csv')
+  const [showGraph, setShowGraph] = useState(false)
+  // 行列パネルでホバー中の頂点番号 (キャンバス上で強調する)
+  const [highlightVertex, setHighlightVertex] = useState<number | null>(null)
+  const [showColorSystem, setShowColorSystem] = useState(false)
+  const [showHistory, setShowHistory] = useState(true)
+  const [showFigure, setShowFigure] = useState(false)
+  const [showTrees, setShowTrees] = useState(false)
+  // 感度 (1 セルの塗り替え) のセクションを開いている間はキャンバスにヒートマップを重ねる
+  const [showSensitivity, setShowSensitivity] = useState(false)
+  // ワーカーで計算した感度 (どの塗り分け・条件について計算したか)
+  const [sensitivityState, setSensitivityState] = useState<{
+    colors: Map<string, Color>
+    colorSystem: ColorSystem
+    criteria: string
+    cells: CellSensitivity[]
+  } | null>(null)
+  // ヒートマップでクリックしたセル (塗り替えの候補をこのセルに絞る)
+  const [sensitivityCell, setSensitivityCell] = useState<string | null>(null)
+  const [treeRoot, setTreeRoot] = useState(0)
+  // 表示中の全域木 (作ったときの行列と根が今と違えば破棄されたものとして扱う)
+  const [treeState, setTreeState] = useState<{
+    matrix: number[][]
+    root: number
+    trees: SpanningTree[]
+    index: number
+    // 全列挙したときの重みの総和 (列挙しきれなければ null)
+    enumerated: { sum: bigint } | null
+  } | null>(null)
+  const [figureOptions, setFigureOptions] = useState<FigureOptions>(DEFAULT_FIGURE_OPTIONS)
+  const [pngWidth, setPngWidth] = useState(1024)
+  // 図の対象 (null なら現在の塗り分け)。結果はそれを探索したときの色体系と格子で描く
+  const [figureTarget, setFigureTarget] = useState<{ result: SearchResult; system: ColorSystem; latticeId: LatticeId } | null>(null)
+  const [tool, setTool] = useState<Tool>('cycle')
+  const [brushColor, setBrushColor] = useState<Color>(1)
+  const [stampKind, setStampKind] = useState<StampKind>('hexagon')
+  const [stampSize, setStampSize] = useState(2)
+  const [stampPreview, setStampPreview] = useState<Point[] | null>(null)
+  const paintingRef = useRef(false)
+  const strokeRef = useRef(0)
+  const svgRef = useRef<SVGSVGElement>(null)
+  const worldRef = useRef<SVGGElement>(null)
+  const [view, setView] = useState<View>(INITIAL_VIEW)
+  const [hoverKey, setHoverKey] = useState<string | null>(null)
+  // ドラッグ移動の開始時のポインタ位置と表示
+  const panRef = useRef<{ x: number; y: number; view: View } | null>(null)
+  const k = colorSystem.k
+  const lattice = getLattice(latticeId)
+  // 色数を減らしたときは選択色を収める
+  const paintColor = Math.min(brushColor, k)
+
+  // 表示範囲のセル (表示が変わらなければパスを作り直さない)
+  const visibleCells = useMemo(() => {
+    const { min, max } = viewRect(view)
+    return lattice.cellsInRect(min, max).map(cell => {
+      const key = lattice.key(cell)
+      return { key, d: polygonPath(lattice.polygon(cell)) }
+    })
+  }, [lattice, view])
+
+  // 編集状態を更新して履歴に積む (変化がなければ積まない)
+  const edit = useCallback((label: string, update: (state: EditorState) => EditorState, group?: string) => {
+    setHistory(h => {
+      const state = currentState(h)
+      const next = update(state)
+      return next === state ? h : pushHistory(h, label, next, group)
+    })
+  }, [])
 
-  const getKey = (x: number, y: number, isUp: boolean): string => {
-    return `${x},${y},${isUp ? 'u' : 'd'}`
-  }
-
-  const parseKey = (key: string): TriangleCoord => {
-    const parts = key.split(',')
-    return { x: parseInt(parts[0]), y: parseInt(parts[1]), isUp: parts[2] === 'u' }
-  }
-
-  const handleClick = useCallback((x: number, y: number, isUp: boolean) => {
-    const key = getKey(x, y, isUp)
-    setColors(prev => {
-      const newColors = new Map(prev)
-      const currentColor = prev.get(key) ?? 0
-      const nextColor = ((currentColor + 1) % 4) as Color
+  const undo = useCallback(() => setHistory(h => moveHistory(h, h.index - 1)), [])
+  const redo = useCallback(() => setHistory(h => moveHistory(h, h.index + 1)), [])
+
+  // Ctrl+Z で元に戻す、Ctrl+Shift+Z (Ctrl+Y) でやり直す。テキスト入力中はブラウザの動作に任せる
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return
+      const target = e.target as HTMLElement
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault()
+        undo()
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault()
+        redo()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo])
+
+  // 複数のセルを同じ色で塗る (0 なら消す)
+  const paintCells = useCallback((label: string, keys: string[], color: Color, group?: string) => {
+    edit(label, state => {
+      if (keys.every(key => (state.colors.get(key) ?? 0) === color)) return state
+      const newColors = new Map(state.colors)
+      for (const key of keys) {
+        if (color === 0) {
+          newColors.delete(key)
+        } else {
+          newColors.set(key, color)
+        }
+      }
+      return { ...state, colors: newColors }
+    }, group)
+  }, [edit])
+
+  const cycleCell = useCallback((cell: CellCoord) => {
+    const key = lattice.key(cell)
+    edit(`巡回 ${key}`, state => {
+      const newColors = new Map(state.colors)
+      const currentColor = state.colors.get(key) ?? 0
+      const nextColor = (currentColor + 1) % (k + 1)
       if (nextColor === 0) {
         newColors.delete(key)
       } else {
         newColors.set(key, nextColor)
       }
-      return newColors
+      return { ...state, colors: newColors }
     })
+  }, [edit, k, lattice])
+
+  // 同じ色でつながった領域を塗りつぶす (透過の領域は表示範囲の中だけ)
+  const floodFill = (cell: CellCoord) => {
+    const key = lattice.key(cell)
+    // 透過の領域は無限に広がるので表示範囲で区切る (色のついた領域は範囲外まで塗る)
+    const within = (colors.get(key) ?? 0) === 0 ? new Set(visibleCells.map(c => c.key)) : undefined
+    const region = connectedRegion(colors, key, lattice, within)
+    paintCells(`塗りつぶし ${region.length}個`, region, paintColor)
+  }
+
+  // ドラッグ塗りの 1 ストロークの履歴名と group
+  const strokeLabel = () => (tool === 'brush' ? 'ブラシ' : '消しゴム')
+  const strokeGroup = () => `stroke-${strokeRef.current}`
+
+  // ポインタ位置 (格子座標)
+  const pointerToLattice = (e: ReactPointerEvent): Point | null => {
+    const ctm = worldRef.current?.getScreenCTM()
+    if (!ctm) return null
+    const p = new DOMPoint(e.clientX, e.clientY).matrixTransform(ctm.inverse())
+    return { x: p.x, y: p.y }
+  }
+
+  // ポインタの下のセル (セルのパスは data-key を持つ)
+  const cellFromEvent = (e: ReactPointerEvent): CellCoord | null => {
+    const key = (e.target as Element).getAttribute('data-key')
+    return key ? lattice.parseKey(key) : null
+  }
+
+  const stampAt = (cell: CellCoord, e: ReactPointerEvent): Point[] | null => {
+    const pointer = pointerToLattice(e)
+    return pointer ? stampPolygon(stampKind, stampSize, stampAnchor(lattice, cell, pointer)) : null
+  }
+
+  // セルごとにハンドラを付けず、キャンバスでまとめて受ける
+  const handleCanvasPointerDown = (e: ReactPointerEvent<SVGSVGElement>) => {
+    // 中ボタン、または移動ツールのドラッグで表示範囲を動かす
+    if (e.button === 1 || (e.button === 0 && tool === 'pan')) {
+      e.currentTarget.setPointerCapture(e.pointerId)
+      panRef.current = { x: e.clientX, y: e.clientY, view }
+      return
+    }
+    const cell = cellFromEvent(e)
+    if (e.button !== 0 || !cell) return
+    // タッチでもドラッグ中に隣のセルへ pointerover が届くよう、暗黙のキャプチャを外す
+    const target = e.target as Element
+    if (target.hasPointerCapture(e.pointerId)) target.releasePointerCapture(e.pointerId)
+
+    switch (tool) {
+      case 'cycle':
+        cycleCell(cell)
+        break
+      case 'brush':
+      case 'eraser':
+        paintingRef.current = true
+        strokeRef.current++
+        paintCells(strokeLabel(), [lattice.key(cell)], tool === 'brush' ? paintColor : 0, strokeGroup())
+        break
+      case 'fill':
+        floodFill(cell)
+        break
+      case 'stamp': {
+        const polygon = stampAt(cell, e)
+        if (polygon) {
+          paintCells(`${STAMP_LABELS[stampKind]} ${stampSize}`, cellsInPolygon(lattice, polygon).map(lattice.key), paintColor)
+        }
+        break
+      }
+    }
+  }
+
+  const handleCanvasPointerOver = (e: ReactPointerEvent<SVGSVGElement>) => {
+    const cell = cellFromEvent(e)
+    setHoverKey(cell ? lattice.key(cell) : null)
+    if (!cell || !paintingRef.current || (tool !== 'brush' && tool !== 'eraser')) return
+    paintCells(strokeLabel(), [lattice.key(cell)], tool === 'brush' ? paintColor : 0, strokeGroup())
+  }
+
+  const handleCanvasPointerMove = (e: ReactPointerEvent<SVGSVGElement>) => {
+    const pan = panRef.current
+    if (pan) {
+      // クライアント座標の移動量を格子座標へ (viewBox の拡大率と表示倍率で割る)
+      const ctm = e.currentTarget.getScreenCTM()
+      const unit = (ctm?.a ?? 1) * scale * pan.view.zoom
+      setView({
+        ...pan.view,
+        cx: pan.view.cx - (e.clientX - pan.x) / unit,
+        cy: pan.view.cy + (e.clientY - pan.y) / unit
+      })
+      return
+    }
+    const cell = cellFromEvent(e)
+    if (tool === 'stamp' && cell) setStampPreview(stampAt(cell, e))
+  }
+
+  const handleCanvasPointerUp = (e: ReactPointerEvent<SVGSVGElement>) => {
+    if (!panRef.current) return
+    panRef.current = null
+    e.currentTarget.releasePointerCapture(e.pointerId)
+  }
+
+  // ホイールでポインタ位置を中心に拡大・縮小 (React の onWheel は passive なので直接登録する)
+  useEffect(() => {
+    const svg = svgRef.current
+    if (!svg) return
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault()
+      const ctm = svg.getScreenCTM()
+      if (!ctm) return
+      const p = new DOMPoint(e.clientX, e.clientY).matrixTransform(ctm.inverse())
+      const factor = Math.pow(WHEEL_ZOOM_STEP, -e.deltaY / 100)
+      setView(v => {
+        const zoom = clampZoom(v.zoom * factor)
+        // ポインタの下の格子座標が動かないように中心をずらす
+        const px = v.cx + (p.x - svgSize / 2) / (scale * v.zoom)
+        const py = v.cy - (p.y - svgSize / 2) / (scale * v.zoom)
+        const ratio = v.zoom / zoom
+        return { zoom, cx: px + (v.cx - px) * ratio, cy: py + (v.cy - py) * ratio }
+      })
+    }
+    svg.addEventListener('wheel', handleWheel, { passive: false })
+    return () => svg.removeEventListener('wheel', handleWheel)
   }, [])
 
-  // JSON出力生成
-  const generateJSON = useCallback((): ColoredTriangle[] => {
-    const result: ColoredTriangle[] = []
-    colors.forEach((color, key) => {
-      if (color !== 0) {
-        const coord = parseKey(key)
-        result.push({ coord, color: COLOR_NAMES[color] })
+  // 塗り分け (なければ輪郭) 全体が収まるように表示する
+  const handleFit = () => {
+    const cells = colors.size > 0 ? Array.from(colors.keys()).map(lattice.parseKey) : shape
+    const fitted = fitView(lattice, cells)
+    if (fitted) setView(fitted)
+  }
+
+  // ドラッグ塗りはキャンバス外で離しても終える
+  useEffect(() => {
+    const stop = () => { paintingRef.current = false }
+    window.addEventListener('pointerup', stop)
+    window.addEventListener('pointercancel', stop)
+    return () => {
+      window.removeEventListener('pointerup', stop)
+      window.removeEventListener('pointercancel', stop)
+    }
+  }, [])
+
+  // 格子の変更 (キーの形式が変わるので塗り分けと輪郭は破棄する)
+  const handleLatticeChange = (id: LatticeId) => {
+    edit(getLattice(id).label, state => ({ ...state, latticeId: id, colors: new Map(), shape: [] }))
+    setFoundResults(NO_RESULTS)
+    setSearchStatus('')
+  }
+
+  // 色数の変更 (範囲外の色は巡回させて残す)
+  const handleColorCountChange = (newK: number) => {
+    edit(`色数 ${newK}`, state => {
+      const newColors = new Map<string, Color>()
+      state.colors.forEach((color, key) => newColors.set(key, ((color - 1) % newK) + 1))
+      return {
+        ...state,
+        colorSystem: { ...state.colorSystem, k: newK, table: resizeTable(state.colorSystem.table, newK) },
+        colors: newColors
       }
     })
-    result.sort((a, b) => {
-      if (a.coord.y !== b.coord.y) return b.coord.y - a.coord.y
-      if (a.coord.x !== b.coord.x) return a.coord.x - b.coord.x
-      return a.coord.isUp ? -1 : 1
+  }
+
+  const handleWeightRuleChange = (rule: WeightRule) => {
+    // 重み表に切り替えるときは、直前の規則の表から編集を始める
+    edit(WEIGHT_RULE_LABELS[rule], state => {
+      const prev = state.colorSystem
+      return { ...state, colorSystem: { ...prev, rule, table: rule === 'table' ? weightTable(prev) : prev.table } }
     })
-    return result
-  }, [colors])
+  }
+
+  // 同じ欄の連続した入力は 1 件の履歴にまとめる
+  const handleWeightChange = (a: number, b: number, value: number) => {
+    edit(`重み ${colorInitial(a + 1)}→${colorInitial(b + 1)}`, state => ({
+      ...state,
+      colorSystem: {
+        ...state.colorSystem,
+        table: state.colorSystem.table.map((row, i) => row.map((w, j) => (i === a && j === b ? value : w)))
+      }
+    }), `weight-${a}-${b}`)
+  }
 
   // JSON入力処理
   const handleJsonImport = () => {
     try {
-      const data: ColoredTriangle[] = JSON.parse(jsonInput)
-      const newColors = new Map<string, Color>()
-      data.forEach(item => {
-        const key = getKey(item.coord.x, item.coord.y, item.coord.isUp)
-        const colorIndex = COLOR_NAMES.indexOf(item.color) as Color
-        if (colorIndex > 0) {
-          newColors.set(key, colorIndex)
-        }
-      })
-      setColors(newColors)
+      const doc = parseColoringDocument(JSON.parse(jsonInput))
+      if (doc.lattice !== latticeId) {
+        setFoundResults(NO_RESULTS)
+      }
+      const importedLattice = getLattice(doc.lattice)
+      const importedColors = coloringFromJSON(doc.cells, doc.colorSystem.k, importedLattice)
+      edit('インポート', state => ({
+        latticeId: doc.lattice,
+        colorSystem: doc.colorSystem,
+        colors: importedColors,
+        shape: doc.lattice === state.latticeId ? state.shape : []
+      }))
+      // 表示範囲の外にある塗り分けも見えるようにする
+      const fitted = fitView(importedLattice, Array.from(importedColors.keys()).map(importedLattice.parseKey))
+      if (fitted) setView(fitted)
     } catch {
       alert('Invalid JSON')
     }
   }
 
   const handleClear = () => {
-    setColors(new Map())
-    setShape([])
+    edit('クリア', state => (state.colors.size === 0 && state.shape.length === 0
+      ? state
+      : { ...state, colors: new Map(), shape: [] }))
     setSearchStatus('')
   }
 
   // 現在の輪郭を保存
   const handleSaveShape = () => {
-    const coords: TriangleCoord[] = []
+    const coords: CellCoord[] = []
     colors.forEach((_, key) => {
-      coords.push(parseKey(key))
+      coords.push(lattice.parseKey(key))
     })
-    setShape(coords)
+    edit(`輪郭保存 ${coords.length}個`, state => ({ ...state, shape: coords }))
     setSearchStatus(`輪郭保存: ${coords.length}個`)
   }
 
-  // ランダムに色を生成
-  const randomizeColors = (targetShape: TriangleCoord[], currentColors: Map<string, Color>): Map<string, Color> => {
-    const newColors = new Map<string, Color>()
-    targetShape.forEach(coord => {
-      const key = getKey(coord.x, coord.y, coord.isUp)
-      const currentColor = currentColors.get(key)
-      if (currentColor === undefined || currentColor === 0) {
-        return
-      }
-      const randomColor = (Math.floor(Math.random() * 3) + 1) as Color
-      newColors.set(key, randomColor)
-    })
-    return newColors
-  }
-
   const handleRandomize = () => {
     if (shape.length === 0 && colors.size === 0) {
       setSearchStatus('先に輪郭を描いてください')
       return
     }
+    const seed = resolveSeed(seedText)
+    if (seed === null) {
+      setSearchStatus('シードは 0 以上の整数で指定してください')
+      return
+    }
     let targetShape = shape
     if (shape.length === 0) {
-      targetShape = Array.from(colors.keys()).map(parseKey)
-      setShape(targetShape)
-      setSearchStatus(`輪郭保存: ${targetShape.length}個`)
+      targetShape = Array.from(colors.keys()).map(lattice.parseKey)
     }
-    setColors(randomizeColors(targetShape, colors))
-  }
-
-  // 小行列式を計算するヘルパー
-  const computeMinorDets = (colorMap: Map<string, Color>): { i: number; det: number }[] => {
-    const coloredTriangles: { coord: TriangleCoord; color: Color }[] = []
-    colorMap.forEach((color, key) => {
-      if (color !== 0) {
-        coloredTriangles.push({ coord: parseKey(key), color })
-      }
-    })
-
-    const n = coloredTriangles.length
-    if (n <= 1) return []
-
-    const mat: number[][] = Array(n).fill(null).map(() => Array(n).fill(0))
-    for (let i = 0; i < n; i++) {
-      for (let j = 0; j < n; j++) {
-        if (i !== j) {
-          const ti = coloredTriangles[i]
-          const tj = coloredTriangles[j]
-          if (areAdjacent(ti.coord, tj.coord)) {
-            const rel = relativeColorNum(ti.color, tj.color)
-            mat[i][j] = -rel
-            mat[i][i] += rel
-          }
-        }
-      }
-    }
-
-    return mat.map((_, i) => {
-      const minor = mat
-        .filter((_, ri) => ri !== i)
-        .map(row => row.filter((_, ci) => ci !== i))
-      return { i, det: determinant(minor) }
-    })
-  }
-
-  // 優先度スコアを計算（W × B × G の積、小さいほど優先）
-  const computePriorityScore = (connected: { white: number; black: number; gray: number }): number => {
-    // 積が小さい = どれかの色がまとまっている = 情報量が多い
-    return connected.white * connected.black * connected.gray
+    const randomized = randomizeColors(targetShape, colors, k, lattice, mulberry32(seed))
+    setSearchStatus(`ランダム: シード ${seed}${shape.length === 0 ? `, 輪郭保存: ${targetShape.length}個` : ''}`)
+    edit(`ランダム (シード ${seed})`, state => ({ ...state, shape: targetShape, colors: randomized }))
   }
 
   // 総パターン数を計算
   const totalPatterns = useMemo(() => {
     const n = shape.length > 0 ? shape.length : colors.size
-    if (n === 0) return 0
-    return Math.pow(3, n)
-  }, [shape.length, colors.size])
+    if (n === 0) return 0n
+    return BigInt(k) ** BigInt(n)
+  }, [shape.length, colors.size, k])
 
-  // 3進数でインデックスから色配列を生成
-  const indexToColors = (index: number, targetShape: TriangleCoord[]): Map<string, Color> => {
-    const newColors = new Map<string, Color>()
-    let remaining = index
-    for (let i = 0; i < targetShape.length; i++) {
-      const coord = targetShape[i]
-      const key = getKey(coord.x, coord.y, coord.isUp)
-      const colorValue = (remaining % 3) + 1 as Color // 1, 2, or 3
-      newColors.set(key, colorValue)
-      remaining = Math.floor(remaining / 3)
+  // 入力中の探索条件 (頂点番号の範囲は探索開始時に輪郭と照らし合わせる)
+  const criteriaCheck = useMemo((): { criteria: SearchCriteria | null; error: string | null } => {
+    try {
+      return { criteria: parseCriteria(criteriaText), error: null }
+    } catch (e) {
+      return { criteria: null, error: (e as Error).message }
     }
-    return newColors
-  }
+  }, [criteriaText])
+  // 頂点や色を名指しする条件は対称性削減と両立しない
+  const symmetryAllowed = criteriaCheck.criteria?.symmetric ?? true
+  const symmetryActive = useSymmetry && symmetryAllowed
+
+  // 対称性削減後のパターン数 (輪郭の自己同型 × 色の巡回シフトの軌道数)
+  const reducedPatterns = useMemo(() => {
+    if (!symmetryActive) return null
+    const targetShape = shape.length > 0 ? shape : Array.from(colors.keys()).map(lattice.parseKey)
+    if (targetShape.length === 0) return null
+    const group = buildSymmetryGroup(lattice, targetShape, k, isShiftInvariant(weightTable(colorSystem)))
+    return {
+      count: countOrbits(targetShape.length, group),
+      shapeSymmetries: group.shapeSymmetries,
+      colorShifts: group.colorShift ? k : 1
+    }
+  }, [symmetryActive, shape, colors, colorSystem, k, lattice])
 
-  // 非ゼロ行列式を探索（優先度順に評価）
+  // 非ゼロ行列式を探索（Web Worker に分割して並列実行）
   const handleSearch = () => {
     if (shape.length === 0 && colors.size === 0) {
       setSearchStatus('先に輪郭を描いてください')
       return
     }
 
-    let targetShape = shape
+    const targetShape = shape.length > 0 ? shape : Array.from(colors.keys()).map(lattice.parseKey)
+    const randomShape = targetShape.filter(coord => (colors.get(lattice.key(coord)) ?? 0) !== 0)
+    let criteria: SearchCriteria
+    try {
+      const n = searchMode === 'exhaustive' ? targetShape.length : randomShape.length
+      criteria = parseCriteria(criteriaText, { n, k })
+    } catch (e) {
+      setSearchStatus(`条件の誤り: ${(e as Error).message}`)
+      return
+    }
+    const seed = resolveSeed(seedText)
+    if (seed === null) {
+      setSearchStatus('シードは 0 以上の整数で指定してください')
+      return
+    }
     if (shape.length === 0) {
-      targetShape = Array.from(colors.keys()).map(parseKey)
-      setShape(targetShape)
+      edit(`輪郭保存 ${targetShape.length}個`, state => ({ ...state, shape: targetShape }))
     }
 
-    stopSearchRef.current = false
     setIsSearching(true)
-    setFoundResults([])
+    const results = createResultList({
+      keys: (searchMode === 'exhaustive' ? targetShape : randomShape).map(lattice.key),
+      system: colorSystem,
+      lattice: latticeId,
+      criteria: criteria.source,
+      seed: searchMode === 'exhaustive' ? null : seed
+    })
+    setFoundResults(results)
+    setResultSnapshot(results)
     setSearchProgress(0)
+    setSampledCount(0)
     setSearchStatus('探索中...')
+    setObjectiveTrace([])
 
     const startTime = Date.now()
-    const results: typeof foundResults = []
-
-    if (searchMode === 'exhaustive') {
-      // 全探索モード
-      const total = Math.pow(3, targetShape.length)
-      let currentIndex = 0
-
-      const exhaustiveStep = () => {
-        if (stopSearchRef.current) {
-          const elapsed = (Date.now() - startTime) / 1000
-          const progress = (currentIndex / total * 100).toFixed(2)
-          setSearchStatus(`中止: ${currentIndex.toLocaleString()}/${total.toLocaleString()} (${progress}%), 発見${results.length}件 (${elapsed.toFixed(1)}秒)`)
-          setFoundResults([...results])
-          setIsSearching(false)
-          return
+    const total = BigInt(k) ** BigInt(targetShape.length)
+    const plan = planExhaustive(targetShape.length, k)
+    const workerCount = searchMode === 'exhaustive'
+      ? Math.max(1, Math.min(WORKER_COUNT, plan.chunkCount))
+      : WORKER_COUNT
+    const workers: Worker[] = []
+    let processed = 0
+    let pruned = 0
+    let evaluated = 0
+    let foundCount = 0
+    let orbitTotal = 0
+    let doneCount = 0
+    let finished = false
+    // 全ワーカーを通した目的関数の最良値
+    const { maximize } = OBJECTIVES[objective]
+    let bestObjective = maximize ? -Infinity : Infinity
+
+    const symmetry = searchMode === 'exhaustive' && criteria.symmetric && useSymmetry
+      ? buildSymmetryGroup(lattice, targetShape, k, isShiftInvariant(weightTable(colorSystem)))
+      : null
+
+    const formatStatus = (prefix: string): string => {
+      const elapsed = ((Date.now() - startTime) / 1000).toFixed(1)
+      if (searchMode === 'exhaustive') {
+        const progress = (processed / Number(total) * 100).toFixed(2)
+        const found = symmetry
+          ? `発見${foundCount}件 (軌道込み${orbitTotal.toLocaleString()}件)`
+          : `発見${foundCount}件`
+        return `${prefix}: ${processed.toLocaleString()}/${total.toLocaleString()} (${progress}%), 枝刈り${pruned.toLocaleString()}件, 評価${evaluated.toLocaleString()}件, ${found} (${elapsed}秒, ${workerCount}スレッド)`
+      }
+      if (isOptimizerMode(searchMode)) {
+        return `${prefix}: シード${seed}, 評価${evaluated.toLocaleString()}件, 発見${foundCount}件, 最良${bestObjective.toFixed(3)} (${elapsed}秒, ${workerCount}スレッド)`
+      }
+      return `${prefix}: シード${seed}, 生成${processed.toLocaleString()}件, 枝刈り${pruned.toLocaleString()}件, 評価${evaluated.toLocaleString()}件, 発見${foundCount}件 (${elapsed}秒, ${workerCount}スレッド)`
+    }
+
+    const finish = (stopped: boolean) => {
+      finished = true
+      workers.forEach(worker => worker.terminate())
+      workersRef.current = []
+      stopSearchRef.current = null
+      setIsSearching(false)
+      setResultSnapshot(null)
+      if (stopped) {
+        setSearchStatus(formatStatus('中止'))
+      } else {
+        setSearchProgress(100)
+        setSearchStatus(formatStatus('完了'))
+      }
+    }
+
+    const handleMessage = (message: SearchMessage) => {
+      if (finished) return
+      if (message.type === 'done') {
+        doneCount++
+        if (doneCount === workers.length) {
+          finish(false)
         }
+        return
+      }
+      if (message.type !== 'progress') return
+
+      processed += message.processed
+      pruned += message.pruned
+      evaluated += message.evaluated
+      const batch = message.results
+      if (batch.count > 0) {
+        foundCount += batch.count
+        orbitTotal += batch.orbit.reduce((sum, size) => sum + size, 0)
+        setFoundResults(prev => appendResults(prev, batch))
+      }
+      if (searchMode === 'exhaustive') {
+        setSearchProgress(processed / Number(total) * 100)
+      } else {
+        setSampledCount(processed)
+      }
+      if (message.objective) {
+        const { current, best } = message.objective
+        if (maximize ? best > bestObjective : best < bestObjective) bestObjective = best
+        const point = { time: (Date.now() - startTime) / 1000, current, best: bestObjective }
+        setObjectiveTrace(prev => {
+          const next = [...prev, point]
+          return next.length > MAX_TRACE_POINTS ? next.filter((_, i) => i % 2 === 0) : next
+        })
+      }
+      setSearchStatus(formatStatus('探索中...'))
+    }
 
-        // バッチ処理
-        const batchSize = Math.min(1000, total - currentIndex)
-        for (let i = 0; i < batchSize && currentIndex < total; i++, currentIndex++) {
-          const testColors = indexToColors(currentIndex, targetShape)
-          const dets = computeMinorDets(testColors)
-          const allNonZero = dets.length > 0 && dets.every(d => Math.abs(d.det) > 0.0001)
-
-          if (allNonZero) {
-            const connected = computeConnectedComponents(testColors)
-            results.push({
-              colors: new Map(testColors),
-              dets: [...dets],
-              attempt: currentIndex + 1,
-              connected
-            })
+    // 全探索は上位桁で分けたチャンクを各ワーカーに配り、ランダム探索はバッチを交互に分担する
+    // 局所探索はワーカーごとに別の乱数列で独立に動かす
+    for (let w = 0; w < workerCount; w++) {
+      const worker = new Worker(new URL('./search.worker.ts', import.meta.url), { type: 'module' })
+      worker.onmessage = (e: MessageEvent<SearchMessage>) => handleMessage(e.data)
+      const request: SearchRequest = isOptimizerMode(searchMode)
+        ? {
+            mode: 'optimize',
+            lattice: latticeId,
+            shape: randomShape,
+            colorSystem,
+            criteria: criteria.source,
+            optimizer: searchMode,
+            objective,
+            seed,
+            stream: w
           }
-        }
+        : searchMode === 'exhaustive'
+        ? {
+            mode: 'exhaustive',
+            lattice: latticeId,
+            shape: targetShape,
+            colorSystem,
+            criteria: criteria.source,
+            prefixDigits: plan.prefixDigits,
+            chunks: Array.from({ length: plan.chunkCount }, (_, c) => c).filter(c => c % workerCount === w),
+            symmetry
+          }
+        : {
+            mode: 'random',
+            lattice: latticeId,
+            shape: randomShape,
+            colorSystem,
+            criteria: criteria.source,
+            seed,
+            stream: w,
+            streamCount: workerCount
+          }
+      worker.postMessage(request)
+      workers.push(worker)
+    }
 
-        const progress = (currentIndex / total * 100)
-        setSearchProgress(progress)
-        const elapsed = ((Date.now() - startTime) / 1000).toFixed(1)
-        setSearchStatus(`探索中... ${currentIndex.toLocaleString()}/${total.toLocaleString()} (${progress.toFixed(2)}%), 発見${results.length}件 (${elapsed}s)`)
+    workersRef.current = workers
+    stopSearchRef.current = () => finish(true)
+  }
 
-        if (currentIndex < total) {
-          requestAnimationFrame(exhaustiveStep)
-        } else {
-          const elapsed = (Date.now() - startTime) / 1000
-          setSearchStatus(`完了: ${total.toLocaleString()}通り探索, 発見${results.length}件 (${elapsed.toFixed(1)}秒)`)
-          setFoundResults([...results])
-          setIsSearching(false)
-          setSearchProgress(100)
-        }
+  // 輪郭の並びを今の探索モードで 1 つずつ探索する (輪郭ごとにワーカーへ配る)
+  // 全探索は最後まで、ランダム探索と局所探索は 1 形あたり batchSeconds 秒で打ち切る
+  const runShapeBatch = (title: string, fileName: string, shapes: CellCoord[][], labels: string[]) => {
+    let criteria: SearchCriteria
+    try {
+      criteria = parseCriteria(criteriaText, { n: Math.min(...shapes.map(cells => cells.length)), k })
+    } catch (e) {
+      setSearchStatus(`条件の誤り: ${(e as Error).message}`)
+      return
+    }
+    const seed = resolveSeed(seedText)
+    if (seed === null) {
+      setSearchStatus('シードは 0 以上の整数で指定してください')
+      return
+    }
+    const timeLimit = batchSeconds * 1000
+    const search: BatchSearch = searchMode === 'exhaustive'
+      ? { mode: 'exhaustive', useSymmetry }
+      : isOptimizerMode(searchMode)
+      ? { mode: 'optimize', optimizer: searchMode, objective, seed, timeLimit }
+      : { mode: 'random', seed, timeLimit }
+
+    const entries: (CensusEntry | null)[] = shapes.map(() => null)
+    setCensus({ latticeId, k, title, fileName, criteria: criteria.source, shapes, labels, entries })
+    setIsSearching(true)
+    setSearchProgress(0)
+
+    const startTime = Date.now()
+    const workerCount = Math.max(1, Math.min(WORKER_COUNT, shapes.length))
+    const workers: Worker[] = []
+    let completed = 0
+    let valid = 0
+    let doneCount = 0
+    let finished = false
+
+    const formatStatus = (prefix: string): string => {
+      const elapsed = ((Date.now() - startTime) / 1000).toFixed(1)
+      return `${prefix}: ${completed}/${shapes.length}形, 条件を満たす形${valid}個 (${elapsed}秒, ${workerCount}スレッド)`
+    }
+    setSearchStatus(formatStatus('形の一覧'))
+
+    const finish = (stopped: boolean) => {
+      finished = true
+      workers.forEach(worker => worker.terminate())
+      workersRef.current = []
+      stopSearchRef.current = null
+      setIsSearching(false)
+      if (!stopped) setSearchProgress(100)
+      setSearchStatus(formatStatus(stopped ? '形の一覧 中止' : '形の一覧 完了'))
+    }
+
+    const handleMessage = (message: SearchMessage) => {
+      if (finished) return
+      if (message.type === 'done') {
+        doneCount++
+        if (doneCount === workers.length) finish(false)
+        return
       }
+      if (message.type !== 'census') return
+      completed++
+      if (message.entry.count > 0) valid++
+      entries[message.index] = message.entry
+      setCensus(prev => prev && { ...prev, entries: [...entries] })
+      setSearchProgress(completed / shapes.length * 100)
+      setSearchStatus(formatStatus('形の一覧'))
+    }
 
-      requestAnimationFrame(exhaustiveStep)
-    } else {
-      // ランダム探索モード
-      let attempts = 0
-      let evaluated = 0
-
-      const searchStep = () => {
-        if (stopSearchRef.current) {
-          const elapsed = (Date.now() - startTime) / 1000
-          setSearchStatus(`中止: 生成${attempts.toLocaleString()}件, 評価${evaluated.toLocaleString()}件, 発見${results.length}件 (${elapsed.toFixed(1)}秒)`)
-          setFoundResults([...results])
-          setIsSearching(false)
-          return
-        }
+    for (let w = 0; w < workerCount; w++) {
+      const worker = new Worker(new URL('./search.worker.ts', import.meta.url), { type: 'module' })
+      worker.onmessage = (e: MessageEvent<SearchMessage>) => handleMessage(e.data)
+      const request: SearchRequest = {
+        mode: 'census',
+        lattice: latticeId,
+        colorSystem,
+        criteria: criteria.source,
+        search,
+        shapes: shapes.flatMap((cells, index) => (index % workerCount === w ? [{ index, cells }] : []))
+      }
+      worker.postMessage(request)
+      workers.push(worker)
+    }
 
-        // Step 1: バッチで候補を生成し、連結成分数を計算
-        const batchSize = 1000
-        const candidates: {
-          colors: Map<string, Color>
-          connected: { white: number; black: number; gray: number }
-          priority: number
-          attempt: number
-        }[] = []
-
-        for (let i = 0; i < batchSize; i++) {
-          attempts++
-          const testColors = randomizeColors(targetShape, colors)
-          const connected = computeConnectedComponents(testColors)
-          const priority = computePriorityScore(connected)
-          candidates.push({
-            colors: testColors,
-            connected,
-            priority,
-            attempt: attempts
-          })
-        }
+    workersRef.current = workers
+    stopSearchRef.current = () => finish(true)
+  }
 
-        // Step 2: 優先度（W×B×G）が小さい順にソート
-        candidates.sort((a, b) => a.priority - b.priority)
-
-        // Step 3: ソート順に行列式を計算
-        for (const candidate of candidates) {
-          evaluated++
-          const dets = computeMinorDets(candidate.colors)
-          const allNonZero = dets.length > 0 && dets.every(d => Math.abs(d.det) > 0.0001)
-
-          if (allNonZero) {
-            results.push({
-              colors: new Map(candidate.colors),
-              dets: [...dets],
-              attempt: candidate.attempt,
-              connected: candidate.connected
-            })
-          }
-        }
+  // 大きさ censusSize の全ての輪郭を列挙して探索する
+  const handleCensus = () => {
+    runShapeBatch(`${lattice.label} ${censusSize}セル`, `census-${latticeId}-${censusSize}`, enumeratePolyforms(lattice, censusSize), [])
+  }
 
-        const elapsed = ((Date.now() - startTime) / 1000).toFixed(1)
-        setSearchStatus(`探索中... 生成${attempts.toLocaleString()}件, 発見${results.length}件 (${elapsed}s)`)
-        requestAnimationFrame(searchStep)
+  // 定型の輪郭を生成して保存済みの輪郭にする (セルは白で塗る)
+  const handleGenerate = () => {
+    let cells: CellCoord[]
+    try {
+      cells = generateShape(lattice, generatorKind, generatorParams, generatorOffset)
+    } catch (e) {
+      setSearchStatus(`生成できません: ${(e as Error).message}`)
+      return
+    }
+    const label = describeGenerator(generatorKind, generatorParams)
+    edit(`生成: ${label}`, state => ({ ...state, shape: cells, colors: new Map(cells.map(c => [lattice.key(c), 1])) }))
+    setView(fitView(lattice, cells) ?? INITIAL_VIEW)
+    setSearchStatus(`生成: ${label} (${cells.length}個)`)
+  }
+
+  // パラメータを from..to で動かした輪郭を並べて、形の一覧として探索する
+  const handleSweep = () => {
+    const shapes: CellCoord[][] = []
+    const labels: string[] = []
+    try {
+      for (let v = sweepRange.from; v <= sweepRange.to; v++) {
+        const params = sweepParam === '*'
+          ? Object.fromEntries(GENERATORS[generatorKind].params.map(p => [p.name, v]))
+          : { ...generatorParams, [sweepParam]: v }
+        shapes.push(generateShape(lattice, generatorKind, params, generatorOffset))
+        labels.push(describeGenerator(generatorKind, params))
       }
+    } catch (e) {
+      setSearchStatus(`生成できません: ${(e as Error).message}`)
+      return
+    }
+    if (shapes.length === 0) {
+      setSearchStatus('掃引の範囲が空です')
+      return
+    }
+    const swept = sweepParam === '*' ? GENERATORS[generatorKind].params.map(p => p.name).join('=') : sweepParam
+    setShowCensus(true)
+    runShapeBatch(
+      `${GENERATORS[generatorKind].label} ${swept}=${sweepRange.from}..${sweepRange.to}`,
+      `sweep-${generatorKind}-${sweepParam === '*' ? 'all' : sweepParam}`,
+      shapes,
+      labels
+    )
+  }
 
-      requestAnimationFrame(searchStep)
+  // 形の一覧の輪郭を、最良の塗り分け (なければ白) で開く
+  const handleOpenCensusShape = (index: number) => {
+    if (!census) return
+    const censusLattice = getLattice(census.latticeId)
+    const cells = census.shapes[index]
+    const best = census.entries[index]?.best
+    const opened = best ? new Map(best.colors) : new Map(cells.map(c => [censusLattice.key(c), 1]))
+    edit(`形の一覧 #${index + 1}`, state => ({ ...state, latticeId: census.latticeId, shape: cells, colors: opened }))
+    setView(fitView(censusLattice, cells) ?? INITIAL_VIEW)
+  }
+
+  const handleExportCensus = () => {
+    if (!census) return
+    const censusLattice = getLattice(census.latticeId)
+    const lines = ['index,label,cells,count,complete,evaluated,components,best']
+    census.shapes.forEach((cells, i) => {
+      const entry = census.entries[i]
+      const best = entry?.best
+      lines.push([
+        i + 1,
+        `"${census.labels[i] ?? ''}"`,
+        `"${cells.map(censusLattice.key).join(' ')}"`,
+        entry ? entry.count : '',
+        entry ? entry.complete : '',
+        entry ? entry.evaluated : '',
+        best ? best.connected.join('/') : '',
+        best ? `"${JSON.stringify(coloringToJSON(best.colors, censusLattice)).replace(/"/g, '""')}"` : ''
+      ].join(','))
+    })
+    downloadText(`${census.fileName}.csv`, lines.join('\n') + '\n', 'text/csv')
+  }
+
+  const censusThumbnails = useMemo(() => {
+    if (!census) return []
+    const censusLattice = getLattice(census.latticeId)
+    return census.shapes.map((cells, i) => thumbnailUrl(cells, census.entries[i], census.k, censusLattice))
+  }, [census])
+
+  // プロジェクトを開く (編集履歴は作り直す)
+  const applyProject = useCallback((project: ProjectRecord) => {
+    const projectLattice = getLattice(project.lattice)
+    const editor: EditorState = {
+      latticeId: project.lattice,
+      colorSystem: project.colorSystem,
+      colors: new Map(project.colors),
+      shape: shapeFromStored(project.shape, projectLattice)
+    }
+    setHistory(createHistory(`開く: ${project.name}`, editor))
+    setFoundResults(projectResults(project))
+    const settings = { ...DEFAULT_PROJECT_SETTINGS, ...project.settings }
+    setSearchMode(isSearchMode(settings.searchMode) ? settings.searchMode : 'exhaustive')
+    setObjective(isObjective(settings.objective) ? settings.objective : 'maxDet')
+    setUseSymmetry(settings.useSymmetry)
+    setCriteriaText(settings.criteria)
+    setSeedText(settings.seed)
+    setProjectId(project.id)
+    setProjectName(project.name)
+    setGroupFilter('')
+    setResultFilter(EMPTY_FILTER)
+    setSampledCount(0)
+    setFigureTarget(null)
+    setTreeState(null)
+    setSearchStatus('')
+    const cells = editor.colors.size > 0 ? Array.from(editor.colors.keys()).map(projectLattice.parseKey) : editor.shape
+    setView(fitView(projectLattice, cells) ?? INITIAL_VIEW)
+  }, [])
+
+  // 復元を待つ間に編集が始まったかを非同期の処理から確かめる
+  const historyRef = useRef(history)
+  useEffect(() => {
+    historyRef.current = history
+  }, [history])
+
+  // 起動時に最後に開いていたプロジェクトを復元する (なければ今の状態で作る)
+  // 復元が終わる前に編集していたら、その編集を残して新しいプロジェクトにする (中身は自動保存で書き込まれる)
+  useEffect(() => {
+    let cancelled = false
+    const restore = async () => {
+      const list = await listProjects()
+      const lastId = await getLastProjectId()
+      if (cancelled) return
+      const last = list.find(p => p.id === lastId) ?? [...list].sort((a, b) => b.updatedAt - a.updatedAt)[0]
+      if (last && historyRef.current.entries.length === 1) {
+        applyProject(last)
+        setProjects(list)
+        return
+      }
+      const project = buildProjectRecord(
+        newProjectId(),
+        `プロジェクト ${list.length + 1}`,
+        INITIAL_EDITOR_STATE,
+        NO_RESULTS,
+        DEFAULT_PROJECT_SETTINGS
+      )
+      await saveProject(project)
+      await setLastProjectId(project.id)
+      if (cancelled) return
+      setProjectId(project.id)
+      setProjectName(project.name)
+      setProjects([...list, project])
+    }
+    restore().catch(e => setSearchStatus(`ライブラリを開けません: ${(e as Error).message}`))
+    return () => { cancelled = true }
+  }, [applyProject])
+
+  const currentSettings = useMemo((): ProjectSettings => ({
+    searchMode,
+    useSymmetry,
+    criteria: criteriaText,
+    seed: seedText,
+    objective
+  }), [searchMode, useSymmetry, criteriaText, seedText, objective])
+
+  const currentProjectRecord = (): ProjectRecord | null => projectId
+    ? buildProjectRecord(projectId, projectName, { latticeId, colorSystem, colors, shape }, foundResults, currentSettings)
+    : null
+
+  // 変更を自動保存する (探索中は結果が増え続けるので終わってから)
+  useEffect(() => {
+    if (!projectId || isSearching) return
+    const timer = setTimeout(() => {
+      const record = buildProjectRecord(
+        projectId, projectName, { latticeId, colorSystem, colors, shape }, foundResults, currentSettings
+      )
+      saveProject(record)
+        .then(() => setProjects(prev => [...prev.filter(p => p.id !== record.id), record]))
+        .catch(e => setSearchStatus(`保存に失敗しました: ${(e as Error).message}`))
+    }, AUTOSAVE_DELAY)
+    return () => clearTimeout(timer)
+  }, [projectId, projectName, latticeId, colorSystem, colors, shape, foundResults, currentSettings, isSearching])
+
+  // 別のプロジェクトへ移る前に、今のプロジェクトを保存する
+  const saveCurrentProject = async () => {
+    const record = currentProjectRecord()
+    if (record) await saveProject(record)
+  }
+
+  const openProject = async (project: ProjectRecord) => {
+    await saveProject(project)
+    await setLastProjectId(project.id)
+    applyProject(project)
+    setProjects(await listProjects())
+  }
+
+  const runLibraryAction = (action: () => Promise<void>) => {
+    action().catch(e => alert(`ライブラリの操作に失敗しました: ${(e as Error).message}`))
+  }
+
+  const handleOpenProject = (id: string) => runLibraryAction(async () => {
+    if (id === projectId) return
+    await saveCurrentProject()
+    const project = await getProject(id)
+    if (project) await openProject(project)
+  })
+
+  const handleNewProject = () => runLibraryAction(async () => {
+    await saveCurrentProject()
+    const name = `プロジェクト ${projects.length + 1}`
+    await openProject(buildProjectRecord(newProjectId(), name, INITIAL_EDITOR_STATE, NO_RESULTS, DEFAULT_PROJECT_SETTINGS))
+  })
+
+  const handleDuplicateProject = () => runLibraryAction(async () => {
+    const record = currentProjectRecord()
+    if (!record) return
+    await saveProject(record)
+    await openProject({ ...record, id: newProjectId(), name: `${record.name} のコピー` })
+  })
+
+  const handleDeleteProject = () => runLibraryAction(async () => {
+    if (!projectId || !confirm(`プロジェクト「${projectName}」を削除しますか?`)) return
+    await deleteProject(projectId)
+    const rest = (await listProjects()).sort((a, b) => b.updatedAt - a.updatedAt)
+    await openProject(rest[0] ?? buildProjectRecord(newProjectId(), 'プロジェクト 1', INITIAL_EDITOR_STATE, NO_RESULTS, DEFAULT_PROJECT_SETTINGS))
+  })
+
+  // ライブラリ全体を 1 つのファイルとして書き出す・読み込む
+  const handleExportLibrary = () => runLibraryAction(async () => {
+    await saveCurrentProject()
+    const list = await listProjects()
+    downloadText('potatriangle-library.json', JSON.stringify(libraryToJSON(list)), 'application/json')
+  })
+
+  const handleImportLibrary = (file: File) => runLibraryAction(async () => {
+    const imported = parseLibraryFile(JSON.parse(await file.text()))
+    const existing = new Set((await listProjects()).map(p => p.id))
+    // 同じ id のプロジェクトは上書きせず別のプロジェクトとして追加する
+    for (const project of imported) {
+      await saveProject(existing.has(project.id) ? { ...project, id: newProjectId() } : project)
+    }
+    setProjects(await listProjects())
+    alert(`${imported.length}件のプロジェクトを読み込みました`)
+  })
+
+  const sortedProjects = useMemo(() => [...projects].sort((a, b) => b.updatedAt - a.updatedAt), [projects])
+
+  // 図の出力
+  const handleExportFigure = async (format: FigureFormat) => {
+    const target = figureTarget?.result.colors ?? colors
+    const targetK = figureTarget?.system.k ?? k
+    const targetLattice = figureTarget ? getLattice(figureTarget.latticeId) : lattice
+    const name = figureTarget ? `result-${figureTarget.result.attempt}` : 'coloring'
+    if (format === 'tikz') {
+      downloadText(`${name}.tex`, figureToTikz(target, targetK, targetLattice, figureOptions), 'application/x-tex')
+      return
+    }
+    const svg = figureToSvg(target, targetK, targetLattice, figureOptions)
+    if (format === 'svg') {
+      downloadText(`${name}.svg`, svg, 'image/svg+xml')
+      return
+    }
+    try {
+      downloadBlob(`${name}.png`, await svgToPng(svg, pngWidth))
+    } catch (e) {
+      alert(`PNG の作成に失敗しました: ${(e as Error).message}`)
     }
   }
 
   const handleStopSearch = () => {
-    stopSearchRef.current = true
-  }
-
-  // ソートされた結果
-  const sortedResults = useMemo(() => {
-    const sorted = [...foundResults]
-    sorted.sort((a, b) => {
-      let cmp = 0
-      switch (sortKey) {
-        case 'attempt':
-          cmp = a.attempt - b.attempt
-          break
-        case 'white':
-          cmp = a.connected.white - b.connected.white
-          break
-        case 'black':
-          cmp = a.connected.black - b.connected.black
-          break
-        case 'gray':
-          cmp = a.connected.gray - b.connected.gray
-          break
-        case 'total':
-          cmp = (a.connected.white + a.connected.black + a.connected.gray) -
-                (b.connected.white + b.connected.black + b.connected.gray)
-          break
-      }
-      return sortAsc ? cmp : -cmp
+    stopSearchRef.current?.()
+  }
+
+  // アンマウント時にワーカーを停止
+  useEffect(() => {
+    return () => {
+      workersRef.current.forEach(worker => worker.terminate())
+    }
+  }, [])
+
+  // 探索中は表・統計を一定間隔で作り直す (updater にするのは、探索の終了で null にした後に上書きしないため)
+  useEffect(() => {
+    latestResultsRef.current = foundResults
+  }, [foundResults])
+  const refreshingResults = resultSnapshot !== null
+  useEffect(() => {
+    if (!refreshingResults) return
+    const timer = setInterval(() => setResultSnapshot(prev => prev && latestResultsRef.current), RESULT_REFRESH_INTERVAL)
+    return () => clearInterval(timer)
+  }, [refreshingResults])
+  const shownResults = resultSnapshot ?? foundResults
+
+  // 結果に現れる臨界群と件数 (絞り込みの選択肢)
+  const groupOptions = useMemo(() => {
+    const counts = countGroups(shownResults)
+    const groups = shownResults.columns.groups
+    return counts
+      .map((count, id) => ({ id, count, label: formatGroup(groups[id]) }))
+      .filter(g => g.count > 0)
+      .sort((a, b) => compareGroups(groups[a.id], groups[b.id]))
+  }, [shownResults])
+
+  // 絞り込みを満たす結果の番号。絞り込み中の群が結果になければ空
+  const selectedResults = useMemo(() => {
+    const group = groupFilter ? groupOptions.find(g => g.label === groupFilter)?.id ?? -1 : null
+    return selectResults(shownResults, { ...resultFilter, group })
+  }, [shownResults, groupOptions, groupFilter, resultFilter])
+  const filterActive = groupFilter !== '' || isFilterActive(resultFilter)
+
+  // 表の並び順 (結果の番号)
+  const resultOrder = useMemo(
+    () => sortResults(shownResults, selectedResults, sortKey, sortAsc),
+    [shownResults, selectedResults, sortKey, sortAsc]
+  )
+
+  // 統計 (開いているときだけ集計する)
+  const minorIndex = Math.min(groupMinor, Math.max(0, shownResults.columns.keys.length - 1))
+  const minorGroupingTooLarge = grouping === 'minor' && minorIndex > 0 && selectedResults.length > MINOR_GROUPING_LIMIT
+  const resultGroups = useMemo(
+    () => (showStats && !minorGroupingTooLarge ? groupResults(shownResults, selectedResults, grouping, minorIndex) : []),
+    [showStats, minorGroupingTooLarge, shownResults, selectedResults, grouping, minorIndex]
+  )
+  const histogram = useMemo(
+    () => (showStats ? detHistogram(shownResults, selectedResults) : []),
+    [showStats, shownResults, selectedResults]
+  )
+
+  // 全ての塗り分け (全探索) または生成した塗り分け (ランダム・局所探索) のうち条件と絞り込みを満たす割合
+  const resultSummary = useMemo(() => {
+    if (!showStats || shownResults.count === 0) return null
+    const { system, keys, seed } = shownResults.columns
+    if (seed === null) {
+      const matched = countColorings(shownResults, selectedResults)
+      const total = BigInt(system.k) ** BigInt(keys.length)
+      return `${matched.toLocaleString()} / ${system.k}^${keys.length} = ${total.toLocaleString()}通り (${formatRatio(matched, Number(total))})`
+    }
+    if (sampledCount === 0) return `${selectedResults.length.toLocaleString()}件 (生成した件数は不明)`
+    return `${selectedResults.length.toLocaleString()} / 生成${sampledCount.toLocaleString()}件 (${formatRatio(selectedResults.length, sampledCount)})`
+  }, [showStats, shownResults, selectedResults, sampledCount])
+
+  const updateFilter = (change: Partial<ResultFilter>) => setResultFilter(prev => ({ ...prev, ...change }))
+
+  // 絞り込んだ結果を表の並び順で書き出す
+  // どちらも件ごとに主小行列式を正確に求め直す
+  const handleExportFiltered = (format: 'json' | 'csv') => {
+    if (resultOrder.length > EXPORT_CONFIRM_COUNT && !confirm(`${resultOrder.length.toLocaleString()}件の結果を書き出しますか?`)) return
+    if (format === 'csv') {
+      downloadText('results.csv', resultsToCsv(shownResults, resultOrder), 'text/csv')
+      return
+    }
+    downloadText('results.json', JSON.stringify(resultsToJSON(shownResults, resultOrder), null, 2), 'application/json')
+  }
+
+  // 見えている行 (主小行列式は描く行の分だけ求める)
+  const visibleRows = useMemo(() => {
+    const start = Math.max(0, Math.floor(tableViewport.top / RESULT_ROW_HEIGHT) - RESULT_OVERSCAN)
+    const end = Math.min(resultOrder.length, Math.ceil((tableViewport.top + tableViewport.height) / RESULT_ROW_HEIGHT) + RESULT_OVERSCAN)
+    const rows = Array.from(resultOrder.subarray(start, end), index => ({
+      index,
+      attempt: resultAttempt(shownResults, index),
+      connected: resultConnected(shownResults, index),
+      orbitSize: resultOrbit(shownResults, index),
+      invariants: resultInvariants(shownResults, index),
+      dets: resultMinors(shownResults, index)
+    }))
+    return { start, end, rows }
+  }, [resultOrder, shownResults, tableViewport])
+
+  // 表の高さが変わったら描く行を増減する
+  useEffect(() => {
+    const container = tableContainerRef.current
+    if (!container) return
+    const observer = new ResizeObserver(() => {
+      setTableViewport({ top: container.scrollTop, height: container.clientHeight })
     })
-    return sorted
-  }, [foundResults, sortKey, sortAsc])
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [])
 
-  const handleSort = (key: SortKey) => {
+  const handleSort = (key: ResultSortKey) => {
     if (sortKey === key) {
       setSortAsc(!sortAsc)
     } else {
@@ -510,84 +1509,161 @@ function App() {
   }
 
   // グラフ行列の計算
-  const { matrix, labels } = useMemo(() => {
-    const coloredTriangles: { coord: TriangleCoord; color: Color; key: string }[] = []
-    colors.forEach((color, key) => {
-      if (color !== 0) {
-        coloredTriangles.push({ coord: parseKey(key), color, key })
-      }
-    })
-
-    const n = coloredTriangles.length
-    if (n === 0) return { matrix: [], labels: [] }
-
-    const labels = coloredTriangles.map((t, i) =>
-      `v${i}(${t.coord.x},${t.coord.y},${t.coord.isUp ? 'u' : 'd'})`
-    )
+  const { matrix, labels, vertexKeys } = useMemo(() => {
+    const { matrix, vertices } = buildColoredLaplacian(colors, colorSystem, lattice)
+    return { matrix, labels: vertices.map(vertexLabel), vertexKeys: vertices.map(v => v.key) }
+  }, [colors, colorSystem, lattice])
+
+  // グラフ表示 (頂点番号・辺の重み・連結成分)
+  const graphOverlay = useMemo(
+    () => (showGraph ? buildGraphOverlay(colors, colorSystem, lattice) : null),
+    [showGraph, colors, colorSystem, lattice]
+  )
 
-    const mat: number[][] = Array(n).fill(null).map(() => Array(n).fill(0))
-
-    for (let i = 0; i < n; i++) {
-      for (let j = 0; j < n; j++) {
-        if (i !== j) {
-          const ti = coloredTriangles[i]
-          const tj = coloredTriangles[j]
-          if (areAdjacent(ti.coord, tj.coord)) {
-            const rel = relativeColorNum(ti.color, tj.color)
-            mat[i][j] = -rel
-            mat[i][i] += rel
-          }
-        }
-      }
-    }
+  const highlightKey = highlightVertex !== null ? vertexKeys[highlightVertex] : undefined
 
-    return { matrix: mat, labels }
-  }, [colors])
+  // 行列パネルの行・列・小行列式にホバーしたら対応するセルを強調する
+  const highlightHandlers = (i: number) => ({
+    onMouseEnter: () => setHighlightVertex(i),
+    onMouseLeave: () => setHighlightVertex(null),
+  })
 
   // 全ての小行列式を計算
   const allMinorDets = useMemo(() => {
     if (matrix.length <= 1) return []
 
-    return matrix.map((_, i) => {
-      const minor = matrix
-        .filter((_, ri) => ri !== i)
-        .map(row => row.filter((_, ci) => ci !== i))
-      return { i, det: determinant(minor) }
-    })
+    return principalMinors(matrix).map((det, i) => ({ i, det }))
   }, [matrix])
 
-  // 現在の連結成分
-  const currentConnected = useMemo(() => computeConnectedComponents(colors), [colors])
-
-  // SVG設定 - 正方形にフィットするようviewBoxを使用
-  const scale = 30
-  const height = Math.sqrt(3) / 2 * scale
-  const padding = scale * 0.8
-  const svgSize = Math.max(GRID_SIZE * scale, GRID_SIZE * height) + padding * 2
-  const originX = svgSize / 2
-  const originY = svgSize / 2
-
-  const getTrianglePath = (x: number, y: number, isUp: boolean): string => {
-    const baseX = originX + x * scale / 2
-    const baseY = originY - y * height
-
-    if (isUp) {
-      return `M ${baseX - scale/2} ${baseY + height/2} L ${baseX} ${baseY - height/2} L ${baseX + scale/2} ${baseY + height/2} Z`
-    } else {
-      return `M ${baseX - scale/2} ${baseY - height/2} L ${baseX + scale/2} ${baseY - height/2} L ${baseX} ${baseY + height/2} Z`
+  // 行列のテキスト出力
+  const saveMatrices = (items: MatrixExport[], name: string) => {
+    downloadText(`${name}.${MATRIX_FORMAT_EXTENSIONS[matrixFormat]}`, formatMatrices(items, matrixFormat))
+  }
+
+  const handleExportMatrix = () => {
+    saveMatrices([{ name: 'coloring', matrix, labels, minors: allMinorDets }], 'laplacian')
+  }
+
+  const handleCopyMatrix = () => {
+    const text = formatMatrices([{ name: 'coloring', matrix, labels, minors: allMinorDets }], matrixFormat)
+    navigator.clipboard.writeText(text).catch(e => alert(`コピーに失敗しました: ${(e as Error).message}`))
+  }
+
+  // 結果一覧の全行を表の並び順で出力
+  const handleExportAllMatrices = () => {
+    if (resultOrder.length > EXPORT_CONFIRM_COUNT && !confirm(`${resultOrder.length.toLocaleString()}件の行列を出力しますか?`)) return
+    // 結果を探索したときの色体系と格子で作る (主小行列式と揃える)
+    const { system, lattice: resultLattice } = shownResults.columns
+    const items = Array.from(resultOrder, index => {
+      const { matrix, vertices } = buildColoredLaplacian(resultColors(shownResults, index), system, getLattice(resultLattice))
+      return {
+        name: `#${resultAttempt(shownResults, index)}`,
+        matrix,
+        labels: vertices.map(vertexLabel),
+        minors: resultMinors(shownResults, index)
+      }
+    })
+    saveMatrices(items, 'laplacians')
+  }
+
+  // 臨界群 (頂点 0 を除いたラプラシアンの Smith 標準形から)
+  const currentGroup = useMemo(() => criticalGroup(matrix), [matrix])
+
+  // 各セルを他の色に塗り替えたときに探索条件を満たすか (条件に誤りがあれば既定の条件で調べる)
+  // セル数 × (色数 - 1) 回の主小行列式の計算になるので、塗り分けが落ち着いてからワーカーで求める
+  const sensitivityCriteria = criteriaCheck.criteria?.source ?? DEFAULT_CRITERIA
+  useEffect(() => {
+    if (!showSensitivity || colors.size === 0) return
+    let worker: Worker | null = null
+    const timer = setTimeout(() => {
+      const w = new Worker(new URL('./search.worker.ts', import.meta.url), { type: 'module' })
+      w.onmessage = (e: MessageEvent<SearchMessage>) => {
+        if (e.data.type !== 'sensitivity') return
+        setSensitivityState({ colors, colorSystem, criteria: sensitivityCriteria, cells: e.data.cells })
+        w.terminate()
+      }
+      const request: SearchRequest = {
+        mode: 'sensitivity',
+        lattice: latticeId,
+        colorSystem,
+        criteria: sensitivityCriteria,
+        colors: [...colors]
+      }
+      w.postMessage(request)
+      worker = w
+    }, SENSITIVITY_DELAY)
+    return () => {
+      clearTimeout(timer)
+      worker?.terminate()
     }
+  }, [showSensitivity, colors, colorSystem, latticeId, sensitivityCriteria])
+  // 今の塗り分けと条件について計算し終えたものだけを表示する
+  const sensitivity = showSensitivity && sensitivityState && sensitivityState.colors === colors &&
+    sensitivityState.colorSystem === colorSystem && sensitivityState.criteria === sensitivityCriteria
+    ? sensitivityState
+    : null
+  const selectedSensitivity = sensitivity?.cells.find(cell => cell.key === sensitivityCell) ?? null
+
+  const handleApplyRecoloring = (key: string, color: Color) => {
+    edit(`塗り替え (${key}) ${colorInitial(color)}`, state => ({ ...state, colors: new Map(state.colors).set(key, color) }))
   }
 
-  // 18x18範囲の三角形生成
-  const triangles: { x: number; y: number; isUp: boolean }[] = []
-  for (let y = -9; y <= 8; y++) {
-    for (let x = -17; x <= 17; x++) {
-      const isUp = (x + y) % 2 === 0
-      triangles.push({ x, y, isUp })
+  // 全域木の探索 (根 r の木の重みの総和が det(L[r,r]) になる)
+  const root = Math.min(treeRoot, Math.max(0, matrix.length - 1))
+  const trees = treeState && treeState.matrix === matrix && treeState.root === root ? treeState : null
+  const currentTree = trees?.trees[trees.index] ?? null
+  const samplable = useMemo(() => matrix.length > 1 && canSampleTrees(matrix, root), [matrix, root])
+
+  const handleSampleTree = () => {
+    const seed = resolveSeed(seedText)
+    if (seed === null) {
+      setSearchStatus('シードは 0 以上の整数で指定してください')
+      return
     }
+    const tree = sampleSpanningTree(matrix, root, mulberry32(seed))
+    setSearchStatus(`ランダムな木: シード ${seed}`)
+    // 全列挙の一覧には混ぜず、サンプルだけの一覧に積む
+    const list = trees && !trees.enumerated ? [...trees.trees, tree] : [tree]
+    setTreeState({ matrix, root, trees: list, index: list.length - 1, enumerated: null })
+  }
+
+  const handleEnumerateTrees = () => {
+    const list = enumerateSpanningTrees(matrix, root)
+    if (!list) {
+      alert(`木が多すぎます (探索の上限 ${ENUMERATION_LIMIT.toLocaleString()})`)
+      return
+    }
+    const sum = list.reduce((total, tree) => total + treeWeight(tree, matrix), 0n)
+    setTreeState({ matrix, root, trees: list, index: 0, enumerated: { sum } })
+  }
+
+  const stepTree = (delta: number) => {
+    if (!trees || trees.trees.length === 0) return
+    const count = trees.trees.length
+    setTreeState({ ...trees, index: (trees.index + delta + count) % count })
   }
 
-  const jsonOutput = JSON.stringify(generateJSON(), null, 2)
+  // 現在の連結成分
+  const currentConnected = useMemo(() => computeConnectedComponents(colors, k, lattice), [colors, k, lattice])
+
+  // セルの描画 (ホバーやスタンプのプレビューだけが変わったときは作り直さない)
+  const cellElements = useMemo(() => visibleCells.map(({ key, d }) => (
+    <path
+      key={key}
+      data-key={key}
+      d={d}
+      fill={COLOR_VALUES[colors.get(key) ?? 0]}
+      stroke="#555"
+      strokeWidth={0.5}
+      vectorEffect="non-scaling-stroke"
+      className="cell"
+    />
+  )), [visibleCells, colors])
+
+  const jsonDocument: ColoringDocument = { lattice: latticeId, colorSystem, cells: coloringToJSON(colors, lattice) }
+  const jsonOutput = JSON.stringify(jsonDocument, null, 2)
+  const paletteColors = Array.from({ length: k }, (_, i) => i + 1)
+  const weights = weightTable(colorSystem)
 
   return (
     <div className="app-grid">
@@ -596,47 +1672,229 @@ function App() {
         <div className="canvas-header">
           <h1>Triangle Lattice</h1>
           <div className="legend">
-            {[0, 1, 2, 3].map(i => (
-              <span key={i} className="legend-item">
-                <span className={`color-box ${COLOR_NAMES[i]}`}></span>
-                {COLOR_NAMES[i][0].toUpperCase()}
+            {[0, ...paletteColors].map(i => (
+              <span
+                key={i}
+                className={`legend-item ${i > 0 ? 'selectable' : ''} ${i > 0 && i === paintColor ? 'selected' : ''}`}
+                onClick={i > 0 ? () => setBrushColor(i) : undefined}
+                title={i > 0 ? 'ブラシ・塗りつぶし・スタンプの色' : undefined}
+              >
+                <span className={`color-box ${COLOR_NAMES[i]}`} style={i > 0 ? { background: COLOR_VALUES[i] } : undefined}></span>
+                {colorInitial(i)}
               </span>
             ))}
           </div>
         </div>
 
+        <div className="controls tool-controls">
+          {(Object.keys(TOOL_LABELS) as Tool[]).map(t => (
+            <button
+              key={t}
+              className={tool === t ? 'active' : ''}
+              onClick={() => {
+                setTool(t)
+                setStampPreview(null)
+              }}
+            >
+              {TOOL_LABELS[t]}
+            </button>
+          ))}
+          {tool === 'stamp' && (
+            <>
+              <select
+                value={stampKind}
+                onChange={(e) => setStampKind(e.target.value as StampKind)}
+                className="mode-select"
+              >
+                {(Object.keys(STAMP_LABELS) as StampKind[]).map(kind => (
+                  <option key={kind} value={kind}>{STAMP_LABELS[kind]}</option>
+                ))}
+              </select>
+              <select
+                value={stampSize}
+                onChange={(e) => setStampSize(Number(e.target.value))}
+                className="mode-select"
+                title="一辺の長さ"
+              >
+                {Array.from({ length: MAX_STAMP_SIZE }, (_, i) => i + 1).map(n => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+            </>
+          )}
+        </div>
+
         <div className="canvas-container">
-          <svg viewBox={`0 0 ${svgSize} ${svgSize}`} className="canvas">
-            {triangles.map(({ x, y, isUp }) => {
-              const key = getKey(x, y, isUp)
-              const color = colors.get(key) ?? 0
-              return (
+          <svg
+            ref={svgRef}
+            viewBox={`0 0 ${svgSize} ${svgSize}`}
+            className={`canvas ${tool === 'pan' ? 'panning' : ''}`}
+            onPointerDown={handleCanvasPointerDown}
+            // 中ボタンの自動スクロールを止める
+            onMouseDown={(e) => { if (e.button === 1) e.preventDefault() }}
+            onPointerOver={handleCanvasPointerOver}
+            onPointerMove={handleCanvasPointerMove}
+            onPointerUp={handleCanvasPointerUp}
+            onPointerLeave={() => {
+              setStampPreview(null)
+              setHoverKey(null)
+            }}
+          >
+            <g
+              ref={worldRef}
+              transform={`translate(${svgSize / 2} ${svgSize / 2}) scale(${scale * view.zoom} ${-scale * view.zoom}) translate(${-view.cx} ${-view.cy})`}
+            >
+              {cellElements}
+              {stampPreview && (
+                <path
+                  d={polygonPath(stampPreview)}
+                  className="stamp-preview"
+                  vectorEffect="non-scaling-stroke"
+                />
+              )}
+              {graphOverlay && (
+                <g className="graph-overlay">
+                  {graphOverlay.components.map((component, i) => (
+                    <path
+                      key={i}
+                      d={component.outline.map(([a, b]) => `M ${a.x} ${a.y} L ${b.x} ${b.y}`).join(' ')}
+                      className="component-outline"
+                      vectorEffect="non-scaling-stroke"
+                    />
+                  ))}
+                  {graphOverlay.edges.map(edge => {
+                    const a = graphOverlay.vertices[edge.from].center
+                    const b = graphOverlay.vertices[edge.to].center
+                    const zero = edge.weight === 0 && edge.reverseWeight === 0
+                    return (
+                      <line
+                        key={`${edge.from}-${edge.to}`}
+                        x1={a.x}
+                        y1={a.y}
+                        x2={b.x}
+                        y2={b.y}
+                        className={`graph-edge ${zero ? 'zero' : ''}`}
+                        vectorEffect="non-scaling-stroke"
+                      />
+                    )
+                  })}
+                  {graphOverlay.edges.map(edge => {
+                    const a = graphOverlay.vertices[edge.from].center
+                    const b = graphOverlay.vertices[edge.to].center
+                    return (
+                      <text
+                        key={`${edge.from}-${edge.to}`}
+                        transform={overlayTextTransform({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }, view.zoom)}
+                        className="edge-weight"
+                      >
+                        {edge.weight === edge.reverseWeight ? edge.weight : `${edge.weight}/${edge.reverseWeight}`}
+                      </text>
+                    )
+                  })}
+                  {graphOverlay.vertices.map(v => (
+                    <text key={v.key} transform={overlayTextTransform(v.center, view.zoom)} className="vertex-index">
+                      {v.index}
+                    </text>
+                  ))}
+                </g>
+              )}
+              {sensitivity && (
+                <g className="sensitivity-overlay">
+                  {sensitivity.cells.map(cell => (
+                    // data-key を付けないので、ヒートマップの上では塗りなどの編集をせずにセルを選ぶだけになる
+                    <path
+                      key={cell.key}
+                      d={polygonPath(lattice.polygon(lattice.parseKey(cell.key)))}
+                      fill={sensitivityFill(cell)}
+                      className={cell.key === sensitivityCell ? 'selected' : ''}
+                      vectorEffect="non-scaling-stroke"
+                      onClick={() => setSensitivityCell(cell.key === sensitivityCell ? null : cell.key)}
+                    >
+                      <title>{sensitivityTitle(cell)}</title>
+                    </path>
+                  ))}
+                </g>
+              )}
+              {showTrees && currentTree && (
+                <g className="spanning-tree">
+                  {currentTree.map((parent, v) => {
+                    if (parent < 0) return null
+                    const a = lattice.centroid(lattice.parseKey(vertexKeys[v]))
+                    const b = lattice.centroid(lattice.parseKey(vertexKeys[parent]))
+                    return <line key={v} x1={a.x} y1={a.y} x2={b.x} y2={b.y} vectorEffect="non-scaling-stroke" />
+                  })}
+                  {(() => {
+                    const c = lattice.centroid(lattice.parseKey(vertexKeys[root]))
+                    return <circle cx={c.x} cy={c.y} r={5 / (scale * view.zoom)} className="tree-root" vectorEffect="non-scaling-stroke" />
+                  })()}
+                </g>
+              )}
+              {highlightKey && (
                 <path
-                  key={key}
-                  d={getTrianglePath(x, y, isUp)}
-                  fill={COLOR_VALUES[color]}
-                  stroke="#555"
-                  strokeWidth={0.5}
-                  className="triangle"
-                  onClick={() => handleClick(x, y, isUp)}
+                  d={polygonPath(lattice.polygon(lattice.parseKey(highlightKey)))}
+                  className="vertex-highlight"
+                  vectorEffect="non-scaling-stroke"
                 />
-              )
-            })}
-            <circle cx={originX} cy={originY} r={2} fill="red" />
+              )}
+              <circle cx={0} cy={0} r={2 / (scale * view.zoom)} fill="red" />
+            </g>
           </svg>
         </div>
 
+        <div className="controls view-controls">
+          <button onClick={handleFit} disabled={colors.size === 0 && shape.length === 0}>全体表示</button>
+          <button onClick={() => setView(v => ({ ...v, zoom: clampZoom(v.zoom * WHEEL_ZOOM_STEP) }))}>＋</button>
+          <button onClick={() => setView(v => ({ ...v, zoom: clampZoom(v.zoom / WHEEL_ZOOM_STEP) }))}>－</button>
+          <button onClick={() => setView(INITIAL_VIEW)}>原点</button>
+          <label className="option-toggle" title="頂点番号・辺の重み (破線は重み 0)・連結成分の輪郭を重ねて表示">
+            <input type="checkbox" checked={showGraph} onChange={(e) => setShowGraph(e.target.checked)} />
+            グラフ
+          </label>
+          <span className="view-readout">
+            ×{view.zoom.toFixed(2)}
+            {hoverKey && ` (${hoverKey}) ${colorInitial(colors.get(hoverKey) ?? 0)}`}
+          </span>
+        </div>
+
         <div className="canvas-info">
           <span>N={colors.size}</span>
           {shape.length > 0 && <span>輪郭={shape.length}</span>}
-          <span>W:{currentConnected.white} B:{currentConnected.black} G:{currentConnected.gray}</span>
-          {totalPatterns > 0 && <span className="total-patterns">全{totalPatterns.toLocaleString()}通り</span>}
+          <span>{paletteColors.map(c => `${colorInitial(c)}:${currentConnected[c - 1]}`).join(' ')}</span>
+          {totalPatterns > 0n && <span className="total-patterns">全{totalPatterns.toLocaleString()}通り</span>}
+          {totalPatterns > 0n && reducedPatterns && (
+            <span className="total-patterns" title={`輪郭の対称性 ${reducedPatterns.shapeSymmetries} × 色シフト ${reducedPatterns.colorShifts}`}>
+              削減後{reducedPatterns.count.toLocaleString()}通り
+            </span>
+          )}
         </div>
 
         <div className="controls">
+          <select
+            value={latticeId}
+            onChange={(e) => handleLatticeChange(e.target.value as LatticeId)}
+            disabled={isSearching}
+            className="mode-select"
+            title="格子を変えると塗り分けはクリアされます"
+          >
+            {Object.values(LATTICES).map(l => (
+              <option key={l.id} value={l.id}>{l.label}</option>
+            ))}
+          </select>
+          <button onClick={undo} disabled={history.index === 0} title="元に戻す (Ctrl+Z)">↶</button>
+          <button onClick={redo} disabled={history.index === history.entries.length - 1} title="やり直す (Ctrl+Shift+Z)">↷</button>
           <button onClick={handleClear}>クリア</button>
           <button onClick={handleSaveShape} disabled={colors.size === 0}>輪郭保存</button>
           <button onClick={handleRandomize} disabled={isSearching}>ランダム</button>
+          <input
+            type="text"
+            inputMode="numeric"
+            value={seedText}
+            onChange={(e) => setSeedText(e.target.value)}
+            disabled={isSearching}
+            placeholder="シード"
+            className="seed-input"
+            title="ランダム探索・局所探索・ランダムボタンのシード (空欄なら毎回新しく作る)"
+          />
           <select
             value={searchMode}
             onChange={(e) => setSearchMode(e.target.value as SearchMode)}
@@ -645,14 +1903,74 @@ function App() {
           >
             <option value="exhaustive">全探索</option>
             <option value="random">ランダム</option>
+            {(Object.keys(OPTIMIZER_LABELS) as OptimizerKind[]).map(kind => (
+              <option key={kind} value={kind}>{OPTIMIZER_LABELS[kind]}</option>
+            ))}
           </select>
+          {isOptimizerMode(searchMode) && (
+            <select
+              value={objective}
+              onChange={(e) => setObjective(e.target.value as Objective)}
+              disabled={isSearching}
+              className="mode-select"
+              title="局所探索の目的関数 (det は det(L[0,0]))"
+            >
+              {(Object.keys(OBJECTIVES) as Objective[]).map(o => (
+                <option key={o} value={o}>{OBJECTIVES[o].label}</option>
+              ))}
+            </select>
+          )}
+          <label
+            className="option-toggle"
+            title={symmetryAllowed
+              ? '輪郭の回転・鏡映と色の巡回シフトで同一視し、代表元だけを探索'
+              : '頂点番号や色を名指しする条件では使えません'}
+          >
+            <input
+              type="checkbox"
+              checked={symmetryActive}
+              onChange={(e) => setUseSymmetry(e.target.checked)}
+              disabled={isSearching || searchMode !== 'exhaustive' || !symmetryAllowed}
+            />
+            対称性削減
+          </label>
           {!isSearching ? (
-            <button onClick={handleSearch} className="search-btn">探索開始</button>
+            <button onClick={handleSearch} className="search-btn" disabled={criteriaCheck.error !== null}>探索開始</button>
           ) : (
             <button onClick={handleStopSearch} className="stop-btn">中断</button>
           )}
         </div>
 
+        <div className="controls criteria-controls">
+          <label className="criteria-input" title={'節を and で繋ぐ。対象: minor[i], minors, comp[c], comps / abs(…), % p / 比較: == != < <= > >= / equal(minors)'}>
+            条件
+            <input
+              type="text"
+              value={criteriaText}
+              onChange={(e) => setCriteriaText(e.target.value)}
+              disabled={isSearching}
+              className={criteriaCheck.error ? 'invalid' : ''}
+              spellCheck={false}
+            />
+          </label>
+          <select
+            value=""
+            onChange={(e) => {
+              const clause = e.target.value
+              setCriteriaText(text => (text.trim() ? `${text.trim()} and ${clause}` : clause))
+            }}
+            disabled={isSearching}
+            className="mode-select"
+          >
+            <option value="" disabled>条件を追加</option>
+            {CRITERIA_TEMPLATES.map(t => <option key={t.label} value={t.clause}>{t.label}</option>)}
+          </select>
+          <button onClick={() => setCriteriaText(DEFAULT_CRITERIA)} disabled={isSearching || criteriaText === DEFAULT_CRITERIA}>
+            既定
+          </button>
+        </div>
+        {criteriaCheck.error && <div className="criteria-error">{criteriaCheck.error}</div>}
+
         {isSearching && searchMode === 'exhaustive' && (
           <div className="progress-container">
             <div className="progress-bar" style={{ width: `${searchProgress}%` }} />
@@ -661,65 +1979,236 @@ function App() {
         )}
 
         {searchStatus && <div className="search-status">{searchStatus}</div>}
+        {isOptimizerMode(searchMode) && objectiveTrace.length > 0 && <ObjectiveChart trace={objectiveTrace} />}
       </div>
 
       {/* 中央カラム: 探索結果 */}
       <div className="results-panel">
         <div className="results-header">
-          <h2>探索結果 ({foundResults.length}件)</h2>
-          {foundResults.length > 0 && (
-            <button className="clear-btn" onClick={() => setFoundResults([])}>クリア</button>
+          <h2>
+            探索結果 ({filterActive
+              ? `${resultOrder.length.toLocaleString()}/${shownResults.count.toLocaleString()}`
+              : shownResults.count.toLocaleString()}件)
+          </h2>
+          {shownResults.count > 0 && (
+            <button
+              className="clear-btn"
+              onClick={() => {
+                setFoundResults(NO_RESULTS)
+                setGroupFilter('')
+                setResultFilter(EMPTY_FILTER)
+                setSampledCount(0)
+              }}
+            >
+              クリア
+            </button>
+          )}
+          {(shownResults.count > 0 || groupFilter) && (
+            <select
+              value={groupFilter}
+              onChange={(e) => setGroupFilter(e.target.value)}
+              className="mode-select"
+              title="臨界群で絞り込む"
+            >
+              <option value="">全ての群</option>
+              {groupFilter && !groupOptions.some(g => g.label === groupFilter) && (
+                <option value={groupFilter}>{groupFilter} (0)</option>
+              )}
+              {groupOptions.map(({ label, count }) => (
+                <option key={label} value={label}>{label} ({count})</option>
+              ))}
+            </select>
+          )}
+          {shownResults.count > 0 && (
+            <button
+              className="clear-btn"
+              onClick={handleExportAllMatrices}
+              title={`全ての結果の行列を ${MATRIX_FORMAT_LABELS[matrixFormat]} 形式で保存`}
+            >
+              行列を一括出力
+            </button>
           )}
+          <button
+            className={`clear-btn${showStats ? ' active' : ''}`}
+            onClick={() => setShowStats(!showStats)}
+            title="det・連結成分数での絞り込み、グループ分け、ヒストグラム"
+          >
+            絞り込み・統計{filterActive ? ' *' : ''}
+          </button>
         </div>
 
-        <div className="results-table-container">
+        {showStats && (
+          <div className="result-stats">
+            <div className="range-inputs">
+              <RangeInput label="det" range={resultFilter.det} parse={parseDet} onChange={det => updateFilter({ det })} />
+              <RangeInput label="計" range={resultFilter.total} parse={parseCount} onChange={total => updateFilter({ total })} />
+              {paletteColors.map(c => (
+                <RangeInput
+                  key={c}
+                  label={colorInitial(c)}
+                  range={resultFilter.colors[c - 1] ?? NO_RANGE}
+                  parse={parseCount}
+                  onChange={range => updateFilter({
+                    colors: paletteColors.map(d => (d === c ? range : resultFilter.colors[d - 1] ?? NO_RANGE))
+                  })}
+                />
+              ))}
+              <button className="clear-btn" onClick={() => setResultFilter(EMPTY_FILTER)} disabled={!isFilterActive(resultFilter)}>
+                解除
+              </button>
+            </div>
+
+            {resultSummary && <div className="stats-summary">条件を満たす割合: {resultSummary}</div>}
+
+            <Histogram bins={histogram} onSelect={bin => updateFilter({ det: { min: bin.from, max: bin.to } })} />
+
+            <div className="stats-row">
+              <select
+                value={grouping}
+                onChange={(e) => setGrouping(e.target.value as ResultGrouping)}
+                className="mode-select"
+                title="結果をまとめる値"
+              >
+                {(Object.keys(GROUPING_LABELS) as ResultGrouping[]).map(g => (
+                  <option key={g} value={g}>{GROUPING_LABELS[g]}</option>
+                ))}
+              </select>
+              {grouping === 'minor' && (
+                <select
+                  value={minorIndex}
+                  onChange={(e) => setGroupMinor(Number(e.target.value))}
+                  className="mode-select"
+                  title={`det(L[i,i]) の i (0 以外は件ごとに求め直すので ${MINOR_GROUPING_LIMIT.toLocaleString()}件まで)`}
+                >
+                  {shownResults.columns.keys.map((_, i) => <option key={i} value={i}>minor[{i}]</option>)}
+                </select>
+              )}
+              <span className="stats-export">
+                絞り込んだ{resultOrder.length.toLocaleString()}件を保存
+                <button className="clear-btn" onClick={() => handleExportFiltered('json')} disabled={resultOrder.length === 0}>JSON</button>
+                <button className="clear-btn" onClick={() => handleExportFiltered('csv')} disabled={resultOrder.length === 0}>CSV</button>
+              </span>
+            </div>
+
+            {minorGroupingTooLarge && (
+              <div className="stats-summary">
+                minor[{minorIndex}] でまとめるには {MINOR_GROUPING_LIMIT.toLocaleString()}件以下に絞り込んでください
+              </div>
+            )}
+
+            {resultGroups.length > 0 && (
+              <table className="stats-table">
+                <thead>
+                  <tr>
+                    <th>{grouping === 'minor' ? `minor[${minorIndex}]` : paletteColors.map(colorInitial).join('/')}</th>
+                    <th>件数</th>
+                    <th>割合</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {resultGroups.slice(0, GROUP_TABLE_LIMIT).map(({ label, count, filter }) => (
+                    <tr
+                      key={label}
+                      className={filter ? 'selectable' : ''}
+                      onClick={filter ? () => updateFilter(filter) : undefined}
+                      title={filter ? 'この値で絞り込む' : undefined}
+                    >
+                      <td>{label}</td>
+                      <td className="num-cell">{count.toLocaleString()}</td>
+                      <td className="num-cell">{formatRatio(count, selectedResults.length)}</td>
+                    </tr>
+                  ))}
+                  {resultGroups.length > GROUP_TABLE_LIMIT && (
+                    <tr>
+                      <td colSpan={3}>他{(resultGroups.length - GROUP_TABLE_LIMIT).toLocaleString()}グループ</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+
+        <div
+          className="results-table-container"
+          ref={tableContainerRef}
+          onScroll={(e) => setTableViewport({ top: e.currentTarget.scrollTop, height: e.currentTarget.clientHeight })}
+        >
           <table className="results-table">
             <thead>
               <tr>
                 <th className="sortable" onClick={() => handleSort('attempt')}>
                   # {sortKey === 'attempt' && (sortAsc ? '▲' : '▼')}
                 </th>
-                <th className="sortable" onClick={() => handleSort('white')}>
-                  W {sortKey === 'white' && (sortAsc ? '▲' : '▼')}
+                {paletteColors.map(c => (
+                  <th key={c} className="sortable" onClick={() => handleSort(c)}>
+                    {colorInitial(c)} {sortKey === c && (sortAsc ? '▲' : '▼')}
+                  </th>
+                ))}
+                <th className="sortable" onClick={() => handleSort('total')}>
+                  計 {sortKey === 'total' && (sortAsc ? '▲' : '▼')}
                 </th>
-                <th className="sortable" onClick={() => handleSort('black')}>
-                  B {sortKey === 'black' && (sortAsc ? '▲' : '▼')}
+                <th className="sortable" onClick={() => handleSort('orbit')} title="対称性で同一視される塗り分けの数">
+                  軌道 {sortKey === 'orbit' && (sortAsc ? '▲' : '▼')}
                 </th>
-                <th className="sortable" onClick={() => handleSort('gray')}>
-                  G {sortKey === 'gray' && (sortAsc ? '▲' : '▼')}
+                <th className="sortable" onClick={() => handleSort('group')} title="臨界群 (頂点 0 を除いたラプラシアンの余核)">
+                  臨界群 {sortKey === 'group' && (sortAsc ? '▲' : '▼')}
                 </th>
-                <th className="sortable" onClick={() => handleSort('total')}>
-                  計 {sortKey === 'total' && (sortAsc ? '▲' : '▼')}
+                <th className="sortable" onClick={() => handleSort('det')} title="det(L[0,0])">
+                  det {sortKey === 'det' && (sortAsc ? '▲' : '▼')}
                 </th>
-                <th>det</th>
                 <th></th>
               </tr>
             </thead>
             <tbody>
-              {sortedResults.map((result, idx) => {
-                const total = result.connected.white + result.connected.black + result.connected.gray
-                const detFirst = result.dets[0]?.det ?? 0
+              {visibleRows.start > 0 && <tr style={{ height: visibleRows.start * RESULT_ROW_HEIGHT }} />}
+              {visibleRows.rows.map(result => {
+                const total = sumCounts(result.connected)
+                const detFirst = result.dets[0]?.det ?? 0n
                 return (
-                  <tr key={idx}>
-                    <td className="num-cell">{result.attempt}</td>
-                    <td className="num-cell">{result.connected.white}</td>
-                    <td className="num-cell">{result.connected.black}</td>
-                    <td className="num-cell">{result.connected.gray}</td>
+                  <tr
+                    key={result.index}
+                    className="result-row"
+                    title={`条件: ${shownResults.columns.criteria || '(なし)'}${shownResults.columns.seed !== null ? `, シード: ${shownResults.columns.seed}` : ''}`}
+                  >
+                    <td className="num-cell">{result.attempt.toString()}</td>
+                    {paletteColors.map(c => (
+                      <td key={c} className="num-cell">{result.connected[c - 1] ?? 0}</td>
+                    ))}
                     <td className="num-cell">{total}</td>
-                    <td className="det-cell" title={result.dets.map(d => d.det).join(', ')}>
-                      {detFirst}
+                    <td className="num-cell">{result.orbitSize}</td>
+                    <td className="group-cell">{formatGroup(result.invariants)}</td>
+                    <td className="det-cell" title={result.dets.map(d => d.det.toString()).join(', ')}>
+                      {detFirst.toString()}
                     </td>
                     <td>
                       <button
                         className="load-btn"
-                        onClick={() => setColors(new Map(result.colors))}
+                        onClick={() => edit(`適用 #${result.attempt}`, state => ({ ...state, colors: resultColors(shownResults, result.index) }))}
                       >
                         適用
                       </button>
+                      <button
+                        className="load-btn"
+                        onClick={() => {
+                          setFigureTarget({
+                            result: materializeResult(shownResults, result.index),
+                            system: shownResults.columns.system,
+                            latticeId: shownResults.columns.lattice
+                          })
+                          setShowFigure(true)
+                        }}
+                        title="この結果を図として出力"
+                      >
+                        図
+                      </button>
                     </td>
                   </tr>
                 )
               })}
+              {visibleRows.end < resultOrder.length && (
+                <tr style={{ height: (resultOrder.length - visibleRows.end) * RESULT_ROW_HEIGHT }} />
+              )}
             </tbody>
           </table>
         </div>
@@ -727,6 +2216,239 @@ function App() {
 
       {/* 右カラム: 詳細情報 */}
       <div className="detail-panel">
+        {/* プロジェクトセクション */}
+        <div className="collapsible-section">
+          <div className="section-header" onClick={() => setShowLibrary(!showLibrary)}>
+            <span>プロジェクト{projectName && `: ${projectName}`}</span>
+            <span>{showLibrary ? '▼' : '▶'}</span>
+          </div>
+          {showLibrary && (
+            <div className="section-content library">
+              <input
+                type="text"
+                value={projectName}
+                onChange={(e) => setProjectName(e.target.value)}
+                disabled={!projectId}
+                className="project-name"
+                title="プロジェクト名 (変更は自動保存されます)"
+              />
+              <div className="controls">
+                <button onClick={handleNewProject} disabled={isSearching || !projectId}>新規</button>
+                <button onClick={handleDuplicateProject} disabled={isSearching || !projectId}>複製</button>
+                <button onClick={handleDeleteProject} disabled={isSearching || !projectId}>削除</button>
+                <button onClick={handleExportLibrary} disabled={!projectId}>書き出し</button>
+                <button onClick={() => libraryFileRef.current?.click()} disabled={isSearching}>読み込み</button>
+                <input
+                  ref={libraryFileRef}
+                  type="file"
+                  accept=".json,application/json"
+                  hidden
+                  onChange={(e) => {
+                    const file = e.target.files?.[0]
+                    if (file) handleImportLibrary(file)
+                    e.target.value = ''
+                  }}
+                />
+              </div>
+              <ul className="project-list">
+                {sortedProjects.map(p => (
+                  <li
+                    key={p.id}
+                    className={`project-item ${p.id === projectId ? 'current' : ''}`}
+                    onClick={() => !isSearching && handleOpenProject(p.id)}
+                  >
+                    <span>{p.id === projectId ? projectName : p.name}</span>
+                    <span className="history-meta">
+                      {getLattice(p.lattice).label} {p.colors.length}個, 結果{projectResultCount(p)}件
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        {/* 定型の輪郭セクション */}
+        <div className="collapsible-section">
+          <div className="section-header" onClick={() => setShowGenerator(!showGenerator)}>
+            <span>定型の輪郭</span>
+            <span>{showGenerator ? '▼' : '▶'}</span>
+          </div>
+          {showGenerator && (
+            <div className="section-content generator">
+              <div className="controls">
+                <select
+                  value={generatorKind}
+                  onChange={(e) => {
+                    const kind = e.target.value as GeneratorKind
+                    setGeneratorKind(kind)
+                    setGeneratorParams(initialParams(kind))
+                    setSweepParam('*')
+                  }}
+                  className="mode-select"
+                >
+                  {(Object.keys(GENERATORS) as GeneratorKind[]).map(kind => (
+                    <option key={kind} value={kind}>{GENERATORS[kind].label}</option>
+                  ))}
+                </select>
+                {GENERATORS[generatorKind].params.map(p => (
+                  <label key={p.name} className="option-toggle">
+                    {p.label}
+                    <input
+                      type="number"
+                      min={p.min}
+                      value={generatorParams[p.name]}
+                      onChange={(e) => setGeneratorParams(params => ({ ...params, [p.name]: Number(e.target.value) }))}
+                      className="seed-input census-size"
+                    />
+                  </label>
+                ))}
+              </div>
+              <div className="controls">
+                <label className="option-toggle" title="基準点 (六角環は中心、それ以外は左下の角) の位置: 横方向 i 歩と 60° 方向 j 歩">
+                  位置
+                  <input
+                    type="number"
+                    value={generatorOffset.i}
+                    onChange={(e) => setGeneratorOffset(o => ({ ...o, i: Number(e.target.value) || 0 }))}
+                    className="seed-input census-size"
+                  />
+                  <input
+                    type="number"
+                    value={generatorOffset.j}
+                    onChange={(e) => setGeneratorOffset(o => ({ ...o, j: Number(e.target.value) || 0 }))}
+                    className="seed-input census-size"
+                  />
+                </label>
+                <button onClick={handleGenerate} disabled={isSearching}>輪郭にする</button>
+              </div>
+              <div className="controls">
+                <label className="option-toggle">
+                  掃引
+                  <select value={sweepParam} onChange={(e) => setSweepParam(e.target.value)} className="mode-select">
+                    <option value="*">全て同じ値</option>
+                    {GENERATORS[generatorKind].params.map(p => (
+                      <option key={p.name} value={p.name}>{p.label}</option>
+                    ))}
+                  </select>
+                </label>
+                <input
+                  type="number"
+                  value={sweepRange.from}
+                  onChange={(e) => setSweepRange(r => ({ ...r, from: Number(e.target.value) || 0 }))}
+                  className="seed-input census-size"
+                />
+                ..
+                <input
+                  type="number"
+                  value={sweepRange.to}
+                  onChange={(e) => setSweepRange(r => ({ ...r, to: Number(e.target.value) || 0 }))}
+                  className="seed-input census-size"
+                />
+                <button
+                  onClick={handleSweep}
+                  disabled={isSearching || criteriaCheck.error !== null}
+                  title="各値の輪郭を今の探索モードで順に探索し、形の一覧に並べる"
+                >
+                  掃引して探索
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* 形の一覧セクション */}
+        <div className="collapsible-section">
+          <div className="section-header" onClick={() => setShowCensus(!showCensus)}>
+            <span>形の一覧</span>
+            <span>{showCensus ? '▼' : '▶'}</span>
+          </div>
+          {showCensus && (
+            <div className="section-content census">
+              <div className="controls">
+                <label className="option-toggle" title="セル数 (回転・鏡映・平行移動で重なる輪郭は 1 つに数える)">
+                  大きさ
+                  <input
+                    type="number"
+                    min={1}
+                    max={CENSUS_MAX_SIZE}
+                    value={censusSize}
+                    onChange={(e) => setCensusSize(Math.min(CENSUS_MAX_SIZE, Math.max(1, Number(e.target.value) || 1)))}
+                    disabled={isSearching}
+                    className="seed-input census-size"
+                  />
+                </label>
+                <button
+                  onClick={handleCensus}
+                  disabled={isSearching || criteriaCheck.error !== null}
+                  title={`${lattice.label}の全ての輪郭を、今の探索モード・色体系・条件で探索する`}
+                >
+                  一覧を探索
+                </button>
+                <button onClick={handleExportCensus} disabled={!census}>CSV</button>
+                {searchMode !== 'exhaustive' && (
+                  <label className="option-toggle" title="全探索以外では 1 つの輪郭をこの秒数で打ち切る">
+                    秒/形
+                    <input
+                      type="number"
+                      min={1}
+                      value={batchSeconds}
+                      onChange={(e) => setBatchSeconds(Math.max(1, Number(e.target.value) || 1))}
+                      disabled={isSearching}
+                      className="seed-input census-size"
+                    />
+                  </label>
+                )}
+                <label className="option-toggle">
+                  <input type="checkbox" checked={censusValidOnly} onChange={(e) => setCensusValidOnly(e.target.checked)} />
+                  条件を満たす形のみ
+                </label>
+              </div>
+              {census && (
+                <>
+                  <div className="tree-info">
+                    {census.title}: {census.shapes.length}形,
+                    条件を満たす形 {census.entries.filter(e => e && e.count > 0).length}
+                    {census.criteria && ` (${census.criteria})`}
+                  </div>
+                  <div className="census-table-container">
+                    <table className="results-table census-table">
+                      <thead>
+                        <tr>
+                          <th>#</th>
+                          <th>形</th>
+                          <th title="条件を満たす塗り分けの数">数</th>
+                          <th title="連結成分数の合計が最小の結果の色ごとの連結成分数">最小成分</th>
+                          <th></th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {census.shapes.map((_, i) => {
+                          const entry = census.entries[i]
+                          if (censusValidOnly && !(entry && entry.count > 0)) return null
+                          return (
+                            <tr key={i} title={census.labels[i]}>
+                              <td className="num-cell">{i + 1}</td>
+                              <td><img src={censusThumbnails[i]} alt={`形 ${i + 1}`} className="census-thumbnail" /></td>
+                              <td className="num-cell" title={entry && !entry.complete ? '時間内に見つかった数' : undefined}>
+                                {entry ? `${entry.count.toLocaleString()}${entry.complete ? '' : '*'}` : '…'}
+                              </td>
+                              <td className="num-cell">{entry?.best ? entry.best.connected.join('/') : '-'}</td>
+                              <td>
+                                <button className="load-btn" onClick={() => handleOpenCensusShape(i)} disabled={isSearching}>開く</button>
+                              </td>
+                            </tr>
+                          )
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
         {/* 行列セクション */}
         <div className="collapsible-section">
           <div className="section-header" onClick={() => setShowMatrix(!showMatrix)}>
@@ -740,13 +2462,13 @@ function App() {
                   <thead>
                     <tr>
                       <th></th>
-                      {matrix.map((_, i) => <th key={i}>{i}</th>)}
+                      {matrix.map((_, i) => <th key={i} {...highlightHandlers(i)}>{i}</th>)}
                     </tr>
                   </thead>
                   <tbody>
                     {matrix.map((row, i) => (
                       <tr key={i}>
-                        <th>{i}</th>
+                        <th {...highlightHandlers(i)}>{i}</th>
                         {row.map((val, j) => (
                           <td key={j}>{val}</td>
                         ))}
@@ -757,7 +2479,7 @@ function App() {
               </div>
               <div className="vertex-labels">
                 {labels.map((label, i) => (
-                  <span key={i} className="label">{label}</span>
+                  <span key={i} className="label" {...highlightHandlers(i)}>{label}</span>
                 ))}
               </div>
               {allMinorDets.length > 0 && (
@@ -765,18 +2487,274 @@ function App() {
                   <div className="det-section-label">det(L[i,i]) = i行i列を除いた小行列式:</div>
                   <div className="det-list">
                     {allMinorDets.map(({ i, det }) => (
-                      <span key={i} className={`det-item ${Math.abs(det) < 0.0001 ? 'zero' : ''}`}>
-                        {i}:{det}
+                      <span key={i} className={`det-item ${det === 0n ? 'zero' : ''}`} {...highlightHandlers(i)}>
+                        {i}:{det.toString()}
                       </span>
                     ))}
                   </div>
                   <div className="nonzero-indices">
                     非0: {'{'}
-                    {allMinorDets.filter(d => Math.abs(d.det) > 0.0001).map(d => d.i).join(', ') || 'なし'}
+                    {allMinorDets.filter(d => d.det !== 0n).map(d => d.i).join(', ') || 'なし'}
                     {'}'}
                   </div>
                 </>
               )}
+              <div className="critical-group">
+                <div className="det-section-label">臨界群 (頂点 0 を除いた行列の Smith 標準形):</div>
+                <div>不変因子: ({currentGroup.map(d => d.toString()).join(', ') || '1'})</div>
+                <div className="group-decomposition">{formatGroup(currentGroup)}</div>
+              </div>
+              <div className="controls matrix-export">
+                <select
+                  value={matrixFormat}
+                  onChange={(e) => setMatrixFormat(e.target.value as MatrixFormat)}
+                  className="mode-select"
+                >
+                  {(Object.keys(MATRIX_FORMAT_LABELS) as MatrixFormat[]).map(format => (
+                    <option key={format} value={format}>{MATRIX_FORMAT_LABELS[format]}</option>
+                  ))}
+                </select>
+                <button onClick={handleExportMatrix}>保存</button>
+                <button onClick={handleCopyMatrix}>コピー</button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* 色体系セクション */}
+        <div className="collapsible-section">
+          <div className="section-header" onClick={() => setShowColorSystem(!showColorSystem)}>
+            <span>色体系 (k={k}, {WEIGHT_RULE_LABELS[colorSystem.rule]})</span>
+            <span>{showColorSystem ? '▼' : '▶'}</span>
+          </div>
+          {showColorSystem && (
+            <div className="section-content">
+              <div className="color-system-controls">
+                <label>
+                  色数
+                  <select
+                    value={k}
+                    onChange={(e) => handleColorCountChange(Number(e.target.value))}
+                    disabled={isSearching}
+                    className="mode-select"
+                  >
+                    {Array.from({ length: MAX_COLORS - MIN_COLORS + 1 }, (_, i) => MIN_COLORS + i).map(n => (
+                      <option key={n} value={n}>{n}</option>
+                    ))}
+                  </select>
+                </label>
+                <label>
+                  重み
+                  <select
+                    value={colorSystem.rule}
+                    onChange={(e) => handleWeightRuleChange(e.target.value as WeightRule)}
+                    disabled={isSearching}
+                    className="mode-select"
+                  >
+                    {(Object.keys(WEIGHT_RULE_LABELS) as WeightRule[]).map(rule => (
+                      <option key={rule} value={rule}>{WEIGHT_RULE_LABELS[rule]}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              <table className="matrix weight-table" title="行の色から列の色への辺の重み">
+                <thead>
+                  <tr>
+                    <th></th>
+                    {paletteColors.map(c => <th key={c}>{colorInitial(c)}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {weights.map((row, a) => (
+                    <tr key={a}>
+                      <th>{colorInitial(a + 1)}</th>
+                      {row.map((w, b) => (
+                        <td key={b}>
+                          {colorSystem.rule === 'table' ? (
+                            <input
+                              type="number"
+                              value={w}
+                              onChange={(e) => handleWeightChange(a, b, Math.trunc(Number(e.target.value)) || 0)}
+                              disabled={isSearching}
+                            />
+                          ) : w}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* 履歴セクション */}
+        <div className="collapsible-section">
+          <div className="section-header" onClick={() => setShowHistory(!showHistory)}>
+            <span>履歴 ({history.index + 1}/{history.entries.length})</span>
+            <span>{showHistory ? '▼' : '▶'}</span>
+          </div>
+          {showHistory && (
+            <div className="section-content">
+              <ol className="history-list">
+                {history.entries.map((entry, i) => (
+                  <li
+                    key={i}
+                    className={`history-item ${i === history.index ? 'current' : ''} ${i > history.index ? 'redo' : ''}`}
+                    onClick={() => setHistory(h => moveHistory(h, i))}
+                    title="この状態に戻る"
+                  >
+                    <span>{entry.label}</span>
+                    <span className="history-meta">
+                      N={entry.state.colors.size}
+                      {entry.state.shape.length > 0 && ` 輪郭=${entry.state.shape.length}`}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+        </div>
+
+        {/* 全域木セクション */}
+        <div className="collapsible-section">
+          <div className="section-header" onClick={() => setShowTrees(!showTrees)}>
+            <span>全域木</span>
+            <span>{showTrees ? '▼' : '▶'}</span>
+          </div>
+          {showTrees && matrix.length > 1 && (
+            <div className="section-content spanning-tree-panel">
+              <div className="controls">
+                <label className="option-toggle">
+                  根
+                  <select value={root} onChange={(e) => setTreeRoot(Number(e.target.value))} className="mode-select">
+                    {labels.map((label, i) => <option key={i} value={i}>{label}</option>)}
+                  </select>
+                </label>
+              </div>
+              <div className="controls">
+                <button
+                  onClick={handleSampleTree}
+                  disabled={!samplable}
+                  title={samplable ? '重みの積に比例する確率で木を選ぶ (Wilson のアルゴリズム)' : '負の重みがあるか、根に辿り着けない頂点があります'}
+                >
+                  ランダム
+                </button>
+                <button onClick={handleEnumerateTrees}>全列挙</button>
+                <button onClick={() => stepTree(-1)} disabled={!trees || trees.trees.length < 2}>◀</button>
+                <button onClick={() => stepTree(1)} disabled={!trees || trees.trees.length < 2}>▶</button>
+              </div>
+              {trees && currentTree && (
+                <div className="tree-info">
+                  木 {trees.index + 1}/{trees.trees.length}, 重み {treeWeight(currentTree, matrix).toString()}
+                </div>
+              )}
+              {trees?.enumerated && (
+                <div className={`tree-check ${trees.enumerated.sum === allMinorDets[root]?.det ? 'ok' : 'ng'}`}>
+                  重みの総和 {trees.enumerated.sum.toString()}
+                  {trees.enumerated.sum === allMinorDets[root]?.det ? ' = ' : ' ≠ '}
+                  det(L[{root},{root}]) {allMinorDets[root]?.det.toString()}
+                </div>
+              )}
+              {trees && trees.trees.length === 0 && <div className="tree-info">木がありません</div>}
+            </div>
+          )}
+        </div>
+
+        {/* 感度セクション */}
+        <div className="collapsible-section">
+          <div className="section-header" onClick={() => setShowSensitivity(!showSensitivity)}>
+            <span>感度 (1 セルの塗り替え)</span>
+            <span>{showSensitivity ? '▼' : '▶'}</span>
+          </div>
+          {showSensitivity && !sensitivity && colors.size > 0 && (
+            <div className="section-content">
+              <div className="tree-info">計算中...</div>
+            </div>
+          )}
+          {sensitivity && (
+            <div className="section-content sensitivity-panel">
+              <div className="tree-info" title="キャンバスの色: 条件を満たす塗り替えの割合 (赤 = なし, 緑 = 全て)。セルをクリックするとそのセルの候補だけを表示">
+                条件: {sensitivity.criteria || '(なし)'}
+                <br />
+                条件を満たす塗り替え {sensitivity.cells.reduce((sum, cell) => sum + cell.validCount, 0)}/
+                {sensitivity.cells.reduce((sum, cell) => sum + cell.recolorings.length, 0)}件
+              </div>
+              {selectedSensitivity && (
+                <div className="controls">
+                  v{selectedSensitivity.index} ({selectedSensitivity.key}) の塗り替え
+                  <button onClick={() => setSensitivityCell(null)}>全ての候補</button>
+                </div>
+              )}
+              <ol className="history-list">
+                {(selectedSensitivity ? [selectedSensitivity] : sensitivity.cells).flatMap(cell => cell.recolorings
+                  .filter(r => r.valid || selectedSensitivity)
+                  .map(r => (
+                    <li
+                      key={`${cell.key}-${r.color}`}
+                      className={`history-item ${r.valid ? '' : 'redo'}`}
+                      onClick={r.valid ? () => handleApplyRecoloring(cell.key, r.color) : undefined}
+                      {...highlightHandlers(cell.index)}
+                      title={`${r.valid ? 'この塗り替えを適用' : '条件を満たさない'} (det: ${r.dets.map(d => d.det.toString()).join(', ')})`}
+                    >
+                      <span>v{cell.index} ({cell.key}) {colorInitial(cell.color)}→{colorInitial(r.color)}</span>
+                      <span className="history-meta">det {r.dets[0]?.det.toString() ?? '-'}, 成分 {r.connected.join('/')}</span>
+                    </li>
+                  )))}
+              </ol>
+            </div>
+          )}
+        </div>
+
+        {/* 図の出力セクション */}
+        <div className="collapsible-section">
+          <div className="section-header" onClick={() => setShowFigure(!showFigure)}>
+            <span>図の出力</span>
+            <span>{showFigure ? '▼' : '▶'}</span>
+          </div>
+          {showFigure && (
+            <div className="section-content figure-export">
+              <div className="figure-target">
+                対象: {figureTarget ? `結果 #${figureTarget.result.attempt}` : '現在の塗り分け'}
+                {figureTarget && <button onClick={() => setFigureTarget(null)}>現在に戻す</button>}
+              </div>
+              <div className="figure-options">
+                {([
+                  ['gridLines', '格子線'],
+                  ['originMarker', '原点'],
+                  ['vertexLabels', '頂点番号'],
+                ] as const).map(([option, label]) => (
+                  <label key={option} className="option-toggle">
+                    <input
+                      type="checkbox"
+                      checked={figureOptions[option]}
+                      onChange={(e) => setFigureOptions({ ...figureOptions, [option]: e.target.checked })}
+                    />
+                    {label}
+                  </label>
+                ))}
+                <select
+                  value={figureOptions.palette}
+                  onChange={(e) => setFigureOptions({ ...figureOptions, palette: e.target.value as FigurePalette })}
+                  className="mode-select"
+                >
+                  <option value="color">カラー</option>
+                  <option value="grayscale">グレースケール</option>
+                </select>
+              </div>
+              <div className="controls">
+                <button onClick={() => handleExportFigure('svg')}>SVG</button>
+                <button onClick={() => handleExportFigure('png')}>PNG</button>
+                <select
+                  value={pngWidth}
+                  onChange={(e) => setPngWidth(Number(e.target.value))}
+                  className="mode-select"
+                  title="PNG の幅"
+                >
+                  {PNG_WIDTHS.map(w => <option key={w} value={w}>{w}px</option>)}
+                </select>
+                <button onClick={() => handleExportFigure('tikz')}>TikZ</button>
+              </div>
             </div>
           )}
         </div>
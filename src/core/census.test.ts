@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { enumeratePolyforms, searchCensusShape } from './census.ts'
+import { DEFAULT_COLOR_SYSTEM } from './colors.ts'
+import { DEFAULT_CRITERIA, parseCriteria } from './criteria.ts'
+import { getLattice, type LatticeId } from './lattice.ts'
+
+describe('enumeratePolyforms', () => {
+  // 自由ポリアモンド・ポリオミノ・ポリヘックスの数 (OEIS A000577, A000105, A000228)
+  const known: [LatticeId, number[]][] = [
+    ['triangle', [1, 1, 1, 3, 4, 12, 24, 66]],
+    ['square', [1, 1, 2, 5, 12, 35]],
+    ['hexagon', [1, 1, 3, 7, 22]],
+  ]
+  for (const [id, counts] of known) {
+    it(`counts free polyforms on the ${id} lattice`, () => {
+      const lattice = getLattice(id)
+      expect(counts.map((_, i) => enumeratePolyforms(lattice, i + 1).length)).toEqual(counts)
+    })
+  }
+
+  it('returns connected shapes of distinct cells', () => {
+    const lattice = getLattice('triangle')
+    for (const shape of enumeratePolyforms(lattice, 6)) {
+      const keys = new Set(shape.map(lattice.key))
+      expect(keys.size).toBe(6)
+      const seen = new Set([lattice.key(shape[0])])
+      const stack = [shape[0]]
+      while (stack.length > 0) {
+        for (const neighbor of lattice.neighbors(stack.pop()!)) {
+          const key = lattice.key(neighbor)
+          if (keys.has(key) && !seen.has(key)) {
+            seen.add(key)
+            stack.push(neighbor)
+          }
+        }
+      }
+      expect(seen.size).toBe(6)
+    }
+  })
+})
+
+describe('searchCensusShape', () => {
+  it('counts the same colorings with and without symmetry reduction', () => {
+    const lattice = getLattice('triangle')
+    const criteria = parseCriteria(DEFAULT_CRITERIA)
+    let total = 0
+    for (const shape of enumeratePolyforms(lattice, 5)) {
+      const plain = searchCensusShape(lattice, shape, DEFAULT_COLOR_SYSTEM, criteria, { mode: 'exhaustive', useSymmetry: false })
+      const reduced = searchCensusShape(lattice, shape, DEFAULT_COLOR_SYSTEM, criteria, { mode: 'exhaustive', useSymmetry: true })
+      expect(plain.complete).toBe(true)
+      expect(reduced.count).toBe(plain.count)
+      expect(reduced.evaluated).toBeLessThanOrEqual(plain.evaluated)
+      total += plain.count
+    }
+    expect(total).toBeGreaterThan(0)
+  })
+})
@@ -0,0 +1,129 @@
+// 形の一覧 (センサス): 大きさ n の連結な輪郭 (三角格子ならポリアモンド) を格子対称性で同一視して全て列挙し、
+// それぞれを探索して条件を満たす塗り分けの数を数える。定型の輪郭の掃引も同じ一覧として探索する
+import { isShiftInvariant, weightTable, type ColorSystem } from './colors.ts'
+import { createSearchContext, searchChunk, searchRandomBatch, type SearchHooks } from './engine.ts'
+import { planExhaustive } from './exhaustive.ts'
+import type { SearchCriteria } from './criteria.ts'
+import { createOptimizer, type Objective, type OptimizerKind } from './optimize.ts'
+import type { CellCoord, Lattice, Point } from './lattice.ts'
+import type { SearchResult } from './search.ts'
+import { buildSymmetryGroup, pointTransforms } from './symmetry.ts'
+
+// 列挙する大きさの上限 (三角格子の 12 で 3334 通り)
+export const CENSUS_MAX_SIZE = 12
+
+// 一覧の各輪郭で行う探索 (全探索は最後まで、ランダム探索と局所探索は timeLimit ms で打ち切る)
+export type BatchSearch =
+  | { mode: 'exhaustive'; useSymmetry: boolean }
+  | { mode: 'random'; seed: number; timeLimit: number }
+  | { mode: 'optimize'; optimizer: OptimizerKind; objective: Objective; seed: number; timeLimit: number }
+
+// 局所探索で 1 回に進める移動数 (打ち切りの確認間隔)
+const OPTIMIZER_STEPS = 100
+
+export interface CensusEntry {
+  // 条件を満たす塗り分けの数 (対称性で削減したときは軌道の大きさで数え直した総数)
+  // 全探索以外では時間内に見つかった数 (ランダム探索では重複を含む)
+  count: number
+  // 全探索を最後まで行ったか
+  complete: boolean
+  // 全探索で評価した塗り分けの数
+  evaluated: number
+  // 連結成分数の合計が最小の結果 (なければ null)
+  best: SearchResult | null
+}
+
+const EPS = 1e-6
+const round = (v: number) => Math.round(v * 1e4) / 1e4
+
+// 回転・鏡映・平行移動で重なる輪郭が同じになるキー
+// 各変換で重心を写し、(y, x) が最小の重心を原点に移した座標の並びのうち辞書順で最小のもの
+function canonicalKey(cells: CellCoord[], lattice: Lattice, transforms: ((p: Point) => Point)[]): string {
+  const centers = cells.map(lattice.centroid)
+  let best: string | null = null
+  for (const transform of transforms) {
+    const image = centers.map(transform)
+    const origin = image.reduce((m, p) => (p.y < m.y - EPS || (Math.abs(p.y - m.y) <= EPS && p.x < m.x) ? p : m))
+    // 原点からの差を 1 回だけ丸める (丸めた値同士の差は誤差で揺れる)
+    const points = image.map(p => ({ x: round(p.x - origin.x), y: round(p.y - origin.y) }))
+    points.sort((a, b) => a.y - b.y || a.x - b.x)
+    const key = points.map(p => `${p.x},${p.y}`).join(' ')
+    if (best === null || key < best) best = key
+  }
+  return best!
+}
+
+// 大きさ size の連結な輪郭を、格子対称性で同一視して列挙する
+// 大きさ m の一覧の各輪郭に隣接セルを 1 つ足して m + 1 の一覧を作る
+export function enumeratePolyforms(lattice: Lattice, size: number): CellCoord[][] {
+  if (size < 1) return []
+  const transforms = pointTransforms(lattice)
+  let level: CellCoord[][] = [[lattice.parseKey(lattice.key({ x: 0, y: 0, isUp: true }))]]
+  for (let m = 1; m < size; m++) {
+    const next = new Map<string, CellCoord[]>()
+    for (const shape of level) {
+      const keys = new Set(shape.map(lattice.key))
+      const tried = new Set<string>()
+      for (const cell of shape) {
+        for (const neighbor of lattice.neighbors(cell)) {
+          const key = lattice.key(neighbor)
+          if (keys.has(key) || tried.has(key)) continue
+          tried.add(key)
+          const grown = [...shape, neighbor]
+          const id = canonicalKey(grown, lattice, transforms)
+          if (!next.has(id)) next.set(id, grown)
+        }
+      }
+    }
+    level = [...next.values()]
+  }
+  return level
+}
+
+// 1 つの輪郭を探索する (全探索では条件が許す範囲で対称性削減を使う)
+export function searchCensusShape(
+  lattice: Lattice,
+  shape: CellCoord[],
+  system: ColorSystem,
+  criteria: SearchCriteria,
+  search: BatchSearch
+): CensusEntry {
+  const symmetry = search.mode === 'exhaustive' && search.useSymmetry && criteria.symmetric
+    ? buildSymmetryGroup(lattice, shape, system.k, isShiftInvariant(weightTable(system)))
+    : null
+  const ctx = createSearchContext(lattice, shape, system, symmetry, criteria)
+  const entry: CensusEntry = { count: 0, complete: search.mode === 'exhaustive', evaluated: 0, best: null }
+  const components = (r: SearchResult) => r.connected.reduce((sum, c) => sum + c, 0)
+  const deadline = search.mode === 'exhaustive' ? Infinity : Date.now() + search.timeLimit
+  const hooks: SearchHooks = {
+    onResult: result => {
+      entry.count += result.orbitSize
+      if (!entry.best || components(result) < components(entry.best)) entry.best = result
+    },
+    onProgress: (_processed, _pruned, evaluated) => {
+      entry.evaluated += evaluated
+    },
+    shouldStop: () => Date.now() >= deadline
+  }
+
+  switch (search.mode) {
+    case 'exhaustive': {
+      const plan = planExhaustive(shape.length, system.k)
+      for (let chunk = 0; chunk < plan.chunkCount; chunk++) {
+        searchChunk(ctx, plan.prefixDigits, chunk, hooks)
+      }
+      break
+    }
+    case 'random':
+      for (let batch = 0; Date.now() < deadline; batch++) {
+        searchRandomBatch(ctx, search.seed, batch, hooks)
+      }
+      break
+    case 'optimize': {
+      const optimizer = createOptimizer(ctx, search.optimizer, search.objective, search.seed, 0, hooks)
+      while (Date.now() < deadline) optimizer.run(OPTIMIZER_STEPS)
+      break
+    }
+  }
+  return entry
+}
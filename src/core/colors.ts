@@ -0,0 +1,107 @@
+// 色の体系: 色数 k と、隣接する 2 色の間の辺の重みの規則
+
+// 色の定義: 0=透過, 1..k=各色
+export type Color = number
+
+export type WeightRule = 'cyclic' | 'symmetric' | 'signed' | 'table'
+
+export interface ColorSystem {
+  k: number
+  rule: WeightRule
+  // rule === 'table' のときの k×k 重み表 (table[a][b] = 色 a+1 から色 b+1 への重み)
+  table: number[][]
+}
+
+export const MIN_COLORS = 2
+export const MAX_COLORS = 6
+
+// パレット (0 は透過)。JSON には名前で保存する
+export const COLOR_NAMES = ['transparent', 'white', 'black', 'gray', 'red', 'yellow', 'cyan'] as const
+export const COLOR_VALUES = ['transparent', '#ffffff', '#1a1a1a', '#888888', '#d9534f', '#e8c547', '#4ac6d4']
+
+export type ColorName = typeof COLOR_NAMES[number]
+
+export const WEIGHT_RULE_LABELS: Record<WeightRule, string> = {
+  cyclic: '巡回 (b-a mod k)',
+  symmetric: '対称 (巡回距離)',
+  signed: '符号付き',
+  table: '重み表',
+}
+
+// 相対的な色番号: white(1) < black(2) < gray(3) < white(1) を k 色に一般化したもの
+export function relativeColorNum(a: number, b: number, k = 3): number {
+  const diff = ((b - 1) - (a - 1) + k) % k
+  return diff
+}
+
+// 規則から重み表を作る (table 規則なら保存された表をそのまま使う)
+export function weightTable(system: ColorSystem): number[][] {
+  const { k, rule } = system
+  if (rule === 'table') return system.table.map(row => [...row])
+
+  const table: number[][] = []
+  for (let a = 1; a <= k; a++) {
+    const row: number[] = []
+    for (let b = 1; b <= k; b++) {
+      const d = relativeColorNum(a, b, k)
+      if (rule === 'cyclic') row.push(d)
+      else if (rule === 'symmetric') row.push(Math.min(d, k - d))
+      else row.push(d > k / 2 ? d - k : d)
+    }
+    table.push(row)
+  }
+  return table
+}
+
+export const DEFAULT_COLOR_SYSTEM: ColorSystem = {
+  k: 3,
+  rule: 'cyclic',
+  table: weightTable({ k: 3, rule: 'cyclic', table: [] }),
+}
+
+// 全ての色を 1 つずらしても重みが変わらないか (色の巡回シフトが対称性になるか)
+export function isShiftInvariant(table: number[][]): boolean {
+  const k = table.length
+  for (let a = 0; a < k; a++) {
+    for (let b = 0; b < k; b++) {
+      if (table[a][b] !== table[(a + 1) % k][(b + 1) % k]) return false
+    }
+  }
+  return true
+}
+
+// 色数を変えたときの重み表 (既存の値は残し、増えた部分は巡回規則で埋める)
+export function resizeTable(table: number[][], k: number): number[][] {
+  const result: number[][] = []
+  for (let a = 0; a < k; a++) {
+    const row: number[] = []
+    for (let b = 0; b < k; b++) {
+      row.push(table[a]?.[b] ?? relativeColorNum(a + 1, b + 1, k))
+    }
+    result.push(row)
+  }
+  return result
+}
+
+// 外部から読み込んだ色体系を検証して整える (不正なら既定値)
+export function normalizeColorSystem(value: unknown): ColorSystem {
+  const v = value as Partial<ColorSystem> | null
+  if (!v || typeof v.k !== 'number' || !Number.isInteger(v.k) || v.k < MIN_COLORS || v.k > MAX_COLORS) {
+    return DEFAULT_COLOR_SYSTEM
+  }
+  const rule = v.rule && v.rule in WEIGHT_RULE_LABELS ? v.rule : 'cyclic'
+  const table = Array.isArray(v.table)
+    ? resizeTable(v.table.map(row => (Array.isArray(row) ? row.map(x => Math.trunc(Number(x)) || 0) : [])), v.k)
+    : resizeTable([], v.k)
+  return { k: v.k, rule, table }
+}
+
+// 色の名前から番号へ (不明なら -1)
+export function colorIndexByName(name: string): number {
+  return (COLOR_NAMES as readonly string[]).indexOf(name)
+}
+
+// 表示用の 1 文字ラベル (W, B, G, ...)
+export function colorInitial(color: number): string {
+  return COLOR_NAMES[color][0].toUpperCase()
+}
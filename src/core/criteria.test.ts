@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { CRITERIA_TEMPLATES, DEFAULT_CRITERIA, matchesComponents, matchesMinors, parseCriteria } from './criteria.ts'
+
+describe('parseCriteria', () => {
+  it('normalizes the source', () => {
+    expect(parseCriteria('abs( minor[ 2 ] )%7>=3 ,comps<=4').source).toBe('abs(minor[2]) % 7 >= 3 and comps <= 4')
+    expect(parseCriteria('').source).toBe('')
+    expect(parseCriteria(DEFAULT_CRITERIA).source).toBe(DEFAULT_CRITERIA)
+    for (const { clause } of CRITERIA_TEMPLATES) expect(parseCriteria(clause).source).toBe(clause)
+  })
+
+  it('derives what the search may skip', () => {
+    const nonzero = parseCriteria('minors != 0')
+    expect(nonzero).toMatchObject({ needsMinors: true, needsComponents: false, requiresAllNonzero: true, requiresSomeNonzero: true, symmetric: true })
+    const single = parseCriteria('minor[1] > 0 and comp[2] <= 1')
+    expect(single).toMatchObject({ needsComponents: true, requiresAllNonzero: false, requiresSomeNonzero: true, symmetric: false })
+    // 0 も満たす条件では枝刈りできない
+    expect(parseCriteria('minors % 2 == 0')).toMatchObject({ requiresAllNonzero: false, requiresSomeNonzero: false })
+    expect(parseCriteria('equal(minors)')).toMatchObject({ needsMinors: true, requiresSomeNonzero: false, symmetric: true })
+  })
+
+  it('rejects malformed clauses', () => {
+    expect(() => parseCriteria('minors = 0')).toThrow('cannot parse')
+    expect(() => parseCriteria('abs(minors == 1')).toThrow('cannot parse')
+    expect(() => parseCriteria('minors % 0 == 0')).toThrow('modulus must be positive')
+    expect(() => parseCriteria('comp[0] <= 1')).toThrow('out of range')
+    expect(() => parseCriteria('minor[5] != 0', { n: 5, k: 3 })).toThrow('minor[5] is out of range')
+    expect(() => parseCriteria('comp[4] <= 1', { n: 5, k: 3 })).toThrow('comp[4] is out of range')
+    expect(() => parseCriteria('minor[4] != 0 and comp[3] <= 1', { n: 5, k: 3 })).not.toThrow()
+  })
+})
+
+describe('matchesMinors', () => {
+  it('evaluates minor clauses on exact values', () => {
+    const minors = [-3n, 6n, 9n]
+    expect(matchesMinors(parseCriteria('minors != 0'), minors)).toBe(true)
+    expect(matchesMinors(parseCriteria('minors > 0'), minors)).toBe(false)
+    expect(matchesMinors(parseCriteria('abs(minors) >= 3'), minors)).toBe(true)
+    expect(matchesMinors(parseCriteria('minors % 3 == 0'), minors)).toBe(true)
+    // 剰余は 0 以上の代表元で比べる
+    expect(matchesMinors(parseCriteria('minor[0] % 5 == 2'), minors)).toBe(true)
+    expect(matchesMinors(parseCriteria('minor[2] == 9'), minors)).toBe(true)
+    expect(matchesMinors(parseCriteria('minor[3] == 0'), minors)).toBe(false)
+    expect(matchesMinors(parseCriteria('equal(minors)'), minors)).toBe(false)
+    expect(matchesMinors(parseCriteria('equal(minors)'), [4n, 4n])).toBe(true)
+    expect(matchesMinors(parseCriteria('minors != 0'), [2n ** 80n, 1n])).toBe(true)
+  })
+})
+
+describe('matchesComponents', () => {
+  it('evaluates component clauses and ignores minor clauses', () => {
+    const connected = [1, 3, 2]
+    expect(matchesComponents(parseCriteria('comps == 6'), connected)).toBe(true)
+    expect(matchesComponents(parseCriteria('comp[1] <= 1 and comp[2] < 3'), connected)).toBe(false)
+    expect(matchesComponents(parseCriteria('comp[3] == 2, minors == 0'), connected)).toBe(true)
+  })
+})
@@ -0,0 +1,143 @@
+// 探索条件: 塗り分けを結果として残すかを決める小さな式言語
+//
+//   条件   := 節 ( 'and' | ',' ) 節 ...            (空なら全ての塗り分けを残す)
+//   節     := 'equal(minors)' | 項 比較演算子 整数
+//   項     := [ 'abs(' ] 対象 [ ')' ] [ '%' 整数 ]
+//   対象   := 'minor[i]' (det(L[i,i])) | 'minors' (全ての主小行列式) | 'comp[c]' (色 c の連結成分数) | 'comps' (連結成分数の合計)
+//
+// 例: minors != 0 / abs(minor[0]) == 1 / minors % 7 == 0 / minor[2] >= 10 and minor[2] <= 99 / comp[1] <= 1
+import type { ConnectedCounts } from './lattice.ts'
+
+export const DEFAULT_CRITERIA = 'minors != 0'
+
+type Operator = '==' | '!=' | '<' | '<=' | '>' | '>='
+
+interface Clause {
+  target: 'minor' | 'minors' | 'comp' | 'comps' | 'equal'
+  // minor[i] の i, comp[c] の c
+  index: number
+  abs: boolean
+  modulus: bigint | null
+  op: Operator
+  value: bigint
+}
+
+export interface SearchCriteria {
+  // 整形済みの式 (結果と一緒に記録する)
+  source: string
+  clauses: Clause[]
+  needsMinors: boolean
+  needsComponents: boolean
+  // 主小行列式が 1 つでも 0 なら満たせない (0 が出たら残りを計算せずに捨てられる)
+  requiresAllNonzero: boolean
+  // 主小行列式が全て 0 なら満たせない (非ゼロ重みグラフが非連結な塗り分けを枝刈りできる)
+  requiresSomeNonzero: boolean
+  // 頂点番号や色を名指ししない (輪郭の対称性と色の巡回シフトによる削減と両立する)
+  symmetric: boolean
+}
+
+export interface CriteriaLimits {
+  // 頂点数と色数 (指定時は minor[i] と comp[c] の範囲を確認する)
+  n: number
+  k: number
+}
+
+// 条件の組み立て用の雛形 (UI の「条件を追加」)
+export const CRITERIA_TEMPLATES: { label: string; clause: string }[] = [
+  { label: '全ての小行列式が非零', clause: 'minors != 0' },
+  { label: '小行列式 i が ±1', clause: 'abs(minor[0]) == 1' },
+  { label: '全ての小行列式が等しい', clause: 'equal(minors)' },
+  { label: '素数 p で割り切れる', clause: 'minors % 2 == 0' },
+  { label: '小行列式 i の範囲', clause: 'minor[0] >= 1 and minor[0] <= 100' },
+  { label: '色ごとの連結成分数', clause: 'comp[1] <= 1' },
+  { label: '連結成分数の合計', clause: 'comps <= 3' },
+]
+
+const CLAUSE_PATTERN =
+  /^(abs\(\s*)?(minors|comps|minor\[\s*(\d+)\s*\]|comp\[\s*(\d+)\s*\])\s*(\))?\s*(?:%\s*(\d+)\s*)?(==|!=|<=|>=|<|>)\s*(-?\d+)$/
+
+function parseClause(text: string, limits?: CriteriaLimits): Clause {
+  if (/^equal\(\s*minors\s*\)$/.test(text)) {
+    return { target: 'equal', index: 0, abs: false, modulus: null, op: '==', value: 0n }
+  }
+  const m = CLAUSE_PATTERN.exec(text)
+  if (!m || Boolean(m[1]) !== Boolean(m[5])) throw new Error(`cannot parse "${text}"`)
+
+  const target = m[2].startsWith('minors') ? 'minors'
+    : m[2].startsWith('minor') ? 'minor'
+    : m[2].startsWith('comps') ? 'comps'
+    : 'comp'
+  const index = Number(m[3] ?? m[4] ?? 0)
+  if (limits && target === 'minor' && index >= limits.n) {
+    throw new Error(`minor[${index}] is out of range (${limits.n} vertices)`)
+  }
+  if (target === 'comp' && (index < 1 || (limits && index > limits.k))) {
+    throw new Error(`comp[${index}] is out of range (colors are numbered from 1)`)
+  }
+  const modulus = m[6] !== undefined ? BigInt(m[6]) : null
+  if (modulus === 0n) throw new Error(`modulus must be positive in "${text}"`)
+  return { target, index, abs: Boolean(m[1]), modulus, op: m[7] as Operator, value: BigInt(m[8]) }
+}
+
+function holds(clause: Clause, raw: bigint): boolean {
+  let v = clause.abs && raw < 0n ? -raw : raw
+  if (clause.modulus !== null) v = ((v % clause.modulus) + clause.modulus) % clause.modulus
+  switch (clause.op) {
+    case '==': return v === clause.value
+    case '!=': return v !== clause.value
+    case '<': return v < clause.value
+    case '<=': return v <= clause.value
+    case '>': return v > clause.value
+    case '>=': return v >= clause.value
+  }
+}
+
+function formatClause(c: Clause): string {
+  if (c.target === 'equal') return 'equal(minors)'
+  let term = c.target === 'minor' || c.target === 'comp' ? `${c.target}[${c.index}]` : c.target
+  if (c.abs) term = `abs(${term})`
+  if (c.modulus !== null) term = `${term} % ${c.modulus}`
+  return `${term} ${c.op} ${c.value}`
+}
+
+const isMinorClause = (c: Clause) => c.target === 'minor' || c.target === 'minors' || c.target === 'equal'
+
+// 式を解釈する (誤りがあれば Error を投げる)
+export function parseCriteria(source: string, limits?: CriteriaLimits): SearchCriteria {
+  const texts = source.split(/\s+and\s+|,/).map(t => t.trim()).filter(t => t !== '')
+  const clauses = texts.map(t => parseClause(t, limits))
+  return {
+    source: clauses.map(formatClause).join(' and '),
+    clauses,
+    needsMinors: clauses.some(isMinorClause),
+    needsComponents: clauses.some(c => !isMinorClause(c)),
+    requiresAllNonzero: clauses.some(c => c.target === 'minors' && !holds(c, 0n)),
+    requiresSomeNonzero: clauses.some(c => (c.target === 'minor' || c.target === 'minors') && !holds(c, 0n)),
+    symmetric: clauses.every(c => c.target !== 'minor' && c.target !== 'comp')
+  }
+}
+
+// 連結成分数についての節を全て満たすか
+export function matchesComponents(criteria: SearchCriteria, connected: ConnectedCounts): boolean {
+  return criteria.clauses.every(c => {
+    if (c.target === 'comp') return holds(c, BigInt(connected[c.index - 1] ?? 0))
+    if (c.target === 'comps') return holds(c, BigInt(connected.reduce((sum, v) => sum + v, 0)))
+    return true
+  })
+}
+
+// 主小行列式についての節を全て満たすか
+export function matchesMinors(criteria: SearchCriteria, minors: bigint[]): boolean {
+  return criteria.clauses.every(c => {
+    switch (c.target) {
+      case 'minor':
+        return c.index < minors.length && holds(c, minors[c.index])
+      case 'minors':
+        return minors.every(det => holds(c, det))
+      case 'equal':
+        return minors.every(det => det === minors[0])
+      default:
+        return true
+    }
+  })
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { createIncrementalMinors, determinant, principalMinors, principalMinorsFromKernel } from './determinant.ts'
+import { mulberry32 } from './random.ts'
+
+// 重み w[i][j] の有向グラフのラプラシアン (行和 0)
+const laplacian = (w: number[][]) =>
+  w.map((row, i) => row.map((v, j) => (i === j ? row.reduce((sum, x, t) => (t === i ? sum : sum + x), 0) : -v)))
+
+// 余因子展開で 1 つずつ求めた主小行列式
+const naiveMinors = (matrix: number[][]) =>
+  matrix.map((_, i) => determinant(matrix.filter((_, r) => r !== i).map(row => row.filter((_, c) => c !== i))))
+
+describe('determinant', () => {
+  it('computes exact determinants', () => {
+    expect(determinant([])).toBe(1n)
+    expect(determinant([[7]])).toBe(7n)
+    expect(determinant([[1, 2], [3, 4]])).toBe(-2n)
+    expect(determinant([[0, 1], [1, 0]])).toBe(-1n)
+    expect(determinant([[2, 0, 1], [1, 3, 2], [1, 1, 2]])).toBe(6n)
+    expect(determinant([[1, 2], [2, 4]])).toBe(0n)
+  })
+
+  it('stays exact beyond 2^53', () => {
+    const big = 2 ** 30
+    expect(determinant([[big, 1], [-1, big]])).toBe(2n ** 60n + 1n)
+  })
+})
+
+describe('principalMinors', () => {
+  it('matches minors computed one by one', () => {
+    const random = mulberry32(1)
+    for (let trial = 0; trial < 50; trial++) {
+      const n = 2 + Math.floor(random() * 5)
+      const w = Array.from({ length: n }, () => Array.from({ length: n }, () => Math.floor(random() * 3)))
+      const matrix = laplacian(w)
+      expect(principalMinors(matrix)).toEqual(naiveMinors(matrix))
+    }
+  })
+
+  it('returns null from the kernel method when the last minor vanishes', () => {
+    // 頂点 2 が孤立していると det(L[2,2]) 以外は 0
+    const matrix = laplacian([[0, 1, 0], [1, 0, 0], [0, 0, 0]])
+    expect(principalMinorsFromKernel(matrix)).toBeNull()
+    expect(principalMinors(matrix)).toEqual([0n, 0n, 0n])
+  })
+})
+
+describe('createIncrementalMinors', () => {
+  it('follows single-entry recolorings like a fresh elimination', () => {
+    const random = mulberry32(2)
+    const n = 7
+    const w = Array.from({ length: n }, () => Array.from({ length: n }, () => Math.floor(random() * 3)))
+    const minors = createIncrementalMinors()
+    for (let step = 0; step < 500; step++) {
+      // 番号の小さい頂点ほど頻繁に変える (Gray コード順の走査と同じ偏り)
+      const v = Math.min(n - 1, Math.floor(-Math.log2(random() + 1e-9)))
+      const u = Math.floor(random() * n)
+      w[v][u] = Math.floor(random() * 3)
+      w[u][v] = Math.floor(random() * 3)
+      const matrix = laplacian(w)
+      expect(minors(matrix)).toEqual(principalMinorsFromKernel(matrix))
+    }
+  })
+})
@@ -0,0 +1,249 @@
+// 行列式計算 (Bareiss の分数なし消去法, BigInt で厳密に計算)
+export function determinant(matrix: number[][]): bigint {
+  const n = matrix.length
+  if (n === 0) return 1n
+
+  const m = matrix.map(row => row.map(v => BigInt(v)))
+  let sign = 1n
+  let prevPivot = 1n
+
+  for (let i = 0; i < n - 1; i++) {
+    // ピボットが0なら下の行と交換
+    if (m[i][i] === 0n) {
+      let swapRow = i
+      for (let k = i + 1; k < n; k++) {
+        if (m[k][i] !== 0n) {
+          swapRow = k
+          break
+        }
+      }
+      if (swapRow === i) {
+        return 0n
+      }
+      [m[i], m[swapRow]] = [m[swapRow], m[i]]
+      sign = -sign
+    }
+
+    // m[k][j] = (m[k][j] * m[i][i] - m[k][i] * m[i][j]) / 前回のピボット (割り切れる)
+    for (let k = i + 1; k < n; k++) {
+      for (let j = i + 1; j < n; j++) {
+        m[k][j] = (m[k][j] * m[i][i] - m[k][i] * m[i][j]) / prevPivot
+      }
+      m[k][i] = 0n
+    }
+    prevPivot = m[i][i]
+  }
+
+  return sign * m[n - 1][n - 1]
+}
+
+// 行和が 0 の行列 (ラプラシアン) の全ての主小行列式 det(L[i,i]) を 1 回の消去で求める
+// 最後の主小行列式 d が非ゼロなら L の階数は n-1 で、余因子行列の各行は左核ベクトル a (a_i = det(L[i,i])) に一致する。
+// a_{n-1} = d と a^T L = 0 から残りを分数なしの前進消去・後退代入で解く。d = 0 なら null を返す
+export function principalMinorsFromKernel(matrix: number[][]): bigint[] | null {
+  const n = matrix.length
+  if (n <= 1) return []
+
+  const r = n - 1
+  // 拡大係数行列 [M^T | b], M = L から r 行 r 列を除いたもの, b_j = L[r][j]
+  const m: bigint[][] = []
+  for (let j = 0; j < r; j++) {
+    const row: bigint[] = []
+    for (let i = 0; i < r; i++) {
+      row.push(BigInt(matrix[i][j]))
+    }
+    row.push(BigInt(matrix[r][j]))
+    m.push(row)
+  }
+
+  let sign = 1n
+  let prevPivot = 1n
+  for (let i = 0; i < r; i++) {
+    if (m[i][i] === 0n) {
+      let swapRow = i
+      for (let k = i + 1; k < r; k++) {
+        if (m[k][i] !== 0n) {
+          swapRow = k
+          break
+        }
+      }
+      if (swapRow === i) {
+        return null
+      }
+      [m[i], m[swapRow]] = [m[swapRow], m[i]]
+      sign = -sign
+    }
+
+    for (let k = i + 1; k < r; k++) {
+      for (let j = i + 1; j <= r; j++) {
+        m[k][j] = (m[k][j] * m[i][i] - m[k][i] * m[i][j]) / prevPivot
+      }
+      m[k][i] = 0n
+    }
+    prevPivot = m[i][i]
+  }
+
+  // D = 最後のピボット = sign * d, y_k = D * x_k を後退代入で求める (除算は割り切れる)
+  const pivot = m[r - 1][r - 1]
+  const y = new Array<bigint>(r)
+  for (let k = r - 1; k >= 0; k--) {
+    let acc = pivot * m[k][r]
+    for (let j = k + 1; j < r; j++) {
+      acc -= m[k][j] * y[j]
+    }
+    y[k] = acc / m[k][k]
+  }
+
+  // a' = -d * x = -sign * y
+  const minors = y.map(v => -sign * v)
+  minors.push(sign * pivot)
+  return minors
+}
+
+// 全ての主小行列式 (1 回の消去で求まらない場合は 1 つずつ計算)
+export function principalMinors(matrix: number[][]): bigint[] {
+  const minors = principalMinorsFromKernel(matrix)
+  if (minors) return minors
+
+  return matrix.map((_, i) => {
+    const minor = matrix
+      .filter((_, ri) => ri !== i)
+      .map(row => row.filter((_, ci) => ci !== i))
+    return determinant(minor)
+  })
+}
+
+// 消去の途中の状態 (step 段目の消去の直前)
+interface EliminationSnapshot {
+  // この状態を作ったときの行列
+  matrix: number[][]
+  // step 行目以降の行の step 列目以降
+  rows: bigint[][]
+  // 行の並び (位置 → 元の行)
+  order: number[]
+  sign: bigint
+  prevPivot: bigint
+}
+
+// 少しずつ変わるラプラシアンの全ての主小行列式を principalMinorsFromKernel と同じ方法で求める
+// 頂点の番号を逆順にして消去するので、番号の小さい頂点 (Gray コード順の走査で頻繁に色が変わる) の行・列は最後に消去される。
+// 前回の行列との差が消去済みでない行・列だけにあれば、その手前までの消去を再利用し、
+// 途中の状態の値に (その状態を作ったときの行列との) 差 × その時点の前回のピボット (消去済みの主座小行列式) を足してから続きを消去する
+// (Bareiss 法の途中の値は消去済みの行・列で縁取った小行列式なので、残りの成分について 1 次式になる)。
+// 途中の状態を作った後の変更は、どれもその状態より後の段から消去し直したものなので、同じ条件を満たしている
+export function createIncrementalMinors(): (matrix: number[][]) => bigint[] | null {
+  let previous: number[][] | null = null
+  let previousMinors: bigint[] | null = null
+  let work: bigint[][] = []
+  // order[位置] = 元の行, position[元の行] = 位置 (最後の消去での並び)
+  let order: number[] = []
+  let position: number[] = []
+  let snapshots: EliminationSnapshot[] = []
+  // 前回の消去で有効な途中の状態の数 (ピボットが見つからず止まった段まで)
+  let ready = 0
+
+  return matrix => {
+    const n = matrix.length
+    if (n <= 1) return []
+    const r = n - 1
+
+    // base からの変わった成分 (消去する行列 m での行・列と差)。m[q][p] = L[r-1-p][r-1-q], m[q][r] = L[r][r-1-q]
+    const diff = (base: number[][]) => {
+      const changes: [number, number, number][] = []
+      for (let a = 0; a <= r; a++) {
+        for (let c = 0; c < r; c++) {
+          const delta = matrix[a][c] - base[a][c]
+          if (delta !== 0) changes.push([r - 1 - c, a === r ? r : r - 1 - a, delta])
+        }
+      }
+      return changes
+    }
+
+    let start = 0
+    if (previous && previous.length === n) {
+      const changes = diff(previous)
+      if (changes.length === 0) return previousMinors
+      start = ready
+      for (const [q, p] of changes) start = Math.min(start, position[q], p)
+    }
+    previous = matrix.map(row => row.slice())
+
+    let sign = 1n
+    let prevPivot = 1n
+    if (start === 0) {
+      work = []
+      for (let q = 0; q < r; q++) {
+        const row: bigint[] = []
+        for (let p = 0; p < r; p++) row.push(BigInt(matrix[r - 1 - p][r - 1 - q]))
+        row.push(BigInt(matrix[r][r - 1 - q]))
+        work.push(row)
+      }
+      order = Array.from({ length: r }, (_, q) => q)
+      snapshots = []
+    } else {
+      const snapshot = snapshots[start]
+      for (let i = start; i < r; i++) {
+        const row = work[i]
+        const saved = snapshot.rows[i - start]
+        for (let j = start; j <= r; j++) row[j] = saved[j - start]
+      }
+      order = snapshot.order.slice()
+      sign = snapshot.sign
+      prevPivot = snapshot.prevPivot
+      const at = new Array<number>(r)
+      order.forEach((q, i) => { at[q] = i })
+      for (const [q, p, delta] of diff(snapshot.matrix)) work[at[q]][p] += BigInt(delta) * prevPivot
+    }
+
+    const m = work
+    let result: bigint[] | null = null
+    ready = r
+    for (let i = start; i < r; i++) {
+      snapshots[i] = { matrix: previous, rows: m.slice(i).map(row => row.slice(i)), order: order.slice(), sign, prevPivot }
+      if (m[i][i] === 0n) {
+        let swapRow = i
+        for (let k = i + 1; k < r; k++) {
+          if (m[k][i] !== 0n) {
+            swapRow = k
+            break
+          }
+        }
+        if (swapRow === i) {
+          ready = i
+          break
+        }
+        [m[i], m[swapRow]] = [m[swapRow], m[i]];
+        [order[i], order[swapRow]] = [order[swapRow], order[i]]
+        sign = -sign
+      }
+
+      for (let k = i + 1; k < r; k++) {
+        for (let j = i + 1; j <= r; j++) {
+          m[k][j] = (m[k][j] * m[i][i] - m[k][i] * m[i][j]) / prevPivot
+        }
+        m[k][i] = 0n
+      }
+      prevPivot = m[i][i]
+    }
+    position = new Array<number>(r)
+    order.forEach((q, i) => { position[q] = i })
+
+    if (ready === r) {
+      // 後退代入は principalMinorsFromKernel と同じ (添字 q は頂点 r-1-q)
+      const pivot = m[r - 1][r - 1]
+      const y = new Array<bigint>(r)
+      for (let k = r - 1; k >= 0; k--) {
+        let acc = pivot * m[k][r]
+        for (let j = k + 1; j < r; j++) {
+          acc -= m[k][j] * y[j]
+        }
+        y[k] = acc / m[k][k]
+      }
+      result = new Array<bigint>(n)
+      for (let q = 0; q < r; q++) result[r - 1 - q] = -sign * y[q]
+      result[r] = sign * pivot
+    }
+    previousMinors = result
+    return result
+  }
+}
@@ -0,0 +1,198 @@
+// 探索の実行単位 (全探索のチャンク・ランダム探索のバッチ)
+// Web Worker と CLI の両方がこれを呼び出し、結果と進捗はフックで受け取る
+import { weightTable, type Color, type ColorSystem } from './colors.ts'
+import { matchesComponents, matchesMinors, parseCriteria, DEFAULT_CRITERIA, type SearchCriteria } from './criteria.ts'
+import { createIncrementalMinors, principalMinors, principalMinorsFromKernel } from './determinant.ts'
+import {
+  buildLaplacian,
+  digitsToIndex,
+  isPotentiallyConnected,
+  walkChunk,
+  type WeightedShape,
+} from './exhaustive.ts'
+import { buildNeighborIndex, computeConnectedComponents, type CellCoord, type ConnectedCounts, type Lattice } from './lattice.ts'
+import { attemptRandom } from './random.ts'
+import {
+  computePriorityScore,
+  digitsToColors,
+  type MinorDet,
+  type SearchResult,
+} from './search.ts'
+import { criticalGroup } from './smith.ts'
+import { canonicalOrbitSize, type SymmetryGroup } from './symmetry.ts'
+
+// ランダム探索の 1 バッチの試行数
+export const RANDOM_BATCH_SIZE = 1000
+
+export interface SearchContext extends WeightedShape {
+  lattice: Lattice
+  shape: CellCoord[]
+  // 指定時は軌道の代表元だけを評価する (全探索のみ)
+  symmetry: SymmetryGroup | null
+  criteria: SearchCriteria
+}
+
+export interface SearchHooks {
+  onResult: (result: SearchResult) => void
+  // processed = 走査した候補数, pruned = うち連結性で枝刈りした数, evaluated = 行列式まで計算した数 (いずれも増分)
+  onProgress: (processed: number, pruned: number, evaluated: number) => void
+  // 全探索で候補ごとに確認し、true なら打ち切る
+  shouldStop?: () => boolean
+}
+
+export function createSearchContext(
+  lattice: Lattice,
+  shape: CellCoord[],
+  system: ColorSystem,
+  symmetry: SymmetryGroup | null = null,
+  criteria: SearchCriteria = parseCriteria(DEFAULT_CRITERIA)
+): SearchContext {
+  return {
+    lattice,
+    shape,
+    neighbors: buildNeighborIndex(shape, lattice),
+    weights: weightTable(system),
+    k: system.k,
+    symmetry,
+    criteria
+  }
+}
+
+// 条件を満たせば主小行列式を返す (満たさなければ null)。連結成分数は必要なときだけ求める
+// principalMinorsFromKernel を計算済み、または差分で求められる呼び出し側は kernelMinors で差し替える
+export function evaluateCandidate(
+  criteria: SearchCriteria,
+  matrix: number[][],
+  connected: () => ConnectedCounts,
+  kernelMinors: () => bigint[] | null = () => principalMinorsFromKernel(matrix)
+): MinorDet[] | null {
+  if (criteria.needsComponents && !matchesComponents(criteria, connected())) return null
+  let minors = kernelMinors()
+  if (!minors || minors.length !== matrix.length) {
+    // 0 の小行列式があるときは 1 つずつ計算し直す (全て非零が必要な条件ならその場で捨てる)
+    if (criteria.requiresAllNonzero) return null
+    minors = principalMinors(matrix)
+  }
+  if (!matchesMinors(criteria, minors)) return null
+  return minors.map((det, i) => ({ i, det }))
+}
+
+// 全探索の 1 チャンクを走査する。先頭 skip 件 (再開時に処理済みの候補) は評価しない
+// 戻り値の position はチャンク内で走査した候補数 (skip を含む)
+export function searchChunk(
+  ctx: SearchContext,
+  prefixDigits: number,
+  chunk: number,
+  hooks: SearchHooks,
+  skip = 0
+): { completed: boolean; position: number } {
+  const { lattice, shape, symmetry, k, criteria } = ctx
+  let position = 0
+  // Gray コード順の隣の候補との差分で主小行列式を求める
+  const incrementalMinors = createIncrementalMinors()
+
+  const completed = walkChunk(ctx, prefixDigits, chunk, (digits, matrix) => {
+    if (position++ < skip) return
+    if (hooks.shouldStop?.()) {
+      position--
+      return false
+    }
+
+    let orbitSize = 1
+    if (symmetry) {
+      orbitSize = canonicalOrbitSize(digits, symmetry)
+      if (orbitSize === 0) {
+        hooks.onProgress(1, 0, 0)
+        return
+      }
+    }
+
+    let testColors: Map<string, Color> | null = null
+    let connected: ConnectedCounts | null = null
+    const getConnected = () => {
+      testColors ??= digitsToColors(digits, shape, lattice)
+      connected ??= computeConnectedComponents(testColors, k, lattice)
+      return connected
+    }
+    const dets = evaluateCandidate(criteria, matrix, getConnected, () => incrementalMinors(matrix))
+    if (dets) {
+      const resultConnected = getConnected()
+      hooks.onResult({
+        colors: testColors!,
+        dets,
+        attempt: digitsToIndex(digits, k) + 1n,
+        connected: resultConnected,
+        orbitSize,
+        invariants: criticalGroup(matrix),
+        criteria: criteria.source,
+        seed: null
+      })
+    }
+    hooks.onProgress(1, 0, 1)
+  }, leaves => {
+    const skipped = Math.min(leaves, Math.max(0, skip - position))
+    position += leaves
+    if (leaves > skipped) {
+      hooks.onProgress(leaves - skipped, leaves - skipped, 0)
+    }
+  }, criteria.requiresSomeNonzero)
+
+  return { completed, position }
+}
+
+// ランダム探索の 1 バッチ (試行番号 batch * RANDOM_BATCH_SIZE + 1 から size 件) を評価する
+// 各試行の塗り分けはシードと試行番号だけで決まる
+export function searchRandomBatch(
+  ctx: SearchContext,
+  seed: number,
+  batch: number,
+  hooks: SearchHooks,
+  size = RANDOM_BATCH_SIZE
+): void {
+  const { lattice, shape, k } = ctx
+
+  // Step 1: バッチで候補を生成し、連結成分数を計算
+  const candidates = []
+  for (let i = 0; i < size; i++) {
+    const attempt = batch * RANDOM_BATCH_SIZE + i + 1
+    const random = attemptRandom(seed, attempt)
+    const digits = shape.map(() => Math.floor(random() * k))
+    const testColors = digitsToColors(digits, shape, lattice)
+    const connected = computeConnectedComponents(testColors, k, lattice)
+    candidates.push({
+      digits,
+      colors: testColors,
+      connected,
+      priority: computePriorityScore(connected),
+      attempt: BigInt(attempt)
+    })
+  }
+
+  // Step 2: 優先度（W×B×G）が小さい順にソート
+  candidates.sort((a, b) => a.priority - b.priority)
+
+  // Step 3: ソート順に行列式を計算
+  for (const candidate of candidates) {
+    // 非ゼロ重みグラフが非連結なら行列式は全て 0
+    if (ctx.criteria.requiresSomeNonzero && !isPotentiallyConnected(candidate.digits, ctx, 0)) {
+      hooks.onProgress(1, 1, 0)
+      continue
+    }
+
+    const matrix = buildLaplacian(candidate.digits, ctx)
+    const dets = evaluateCandidate(ctx.criteria, matrix, () => candidate.connected)
+    if (dets) {
+      hooks.onResult({
+        colors: candidate.colors,
+        dets,
+        attempt: candidate.attempt,
+        connected: candidate.connected,
+        orbitSize: 1,
+        invariants: criticalGroup(matrix),
+        criteria: ctx.criteria.source,
+        seed
+      })
+    }
+    hooks.onProgress(1, 0, 1)
+  }
+}
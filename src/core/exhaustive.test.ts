@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_COLOR_SYSTEM } from './colors.ts'
+import { principalMinors } from './determinant.ts'
+import { createSearchContext } from './engine.ts'
+import { buildLaplacian, digitsToIndex, planExhaustive, walkChunk } from './exhaustive.ts'
+import { generateShape } from './generators.ts'
+import { getLattice } from './lattice.ts'
+
+const lattice = getLattice('triangle')
+// 7 セルの台形
+const shape = generateShape(lattice, 'trapezoid', { a: 4, h: 1 }, { i: 0, j: 0 })
+const ctx = createSearchContext(lattice, shape, DEFAULT_COLOR_SYSTEM)
+const { k } = ctx
+const n = shape.length
+
+// 全てのチャンクを走査して訪問した塗り分けと枝刈りした葉の数を集める
+const walkAll = (prune: boolean) => {
+  const plan = planExhaustive(n, k)
+  const visits: { digits: number[]; matrix: number[][] }[] = []
+  let pruned = 0
+  for (let chunk = 0; chunk < plan.chunkCount; chunk++) {
+    walkChunk(ctx, plan.prefixDigits, chunk, (digits, matrix) => {
+      visits.push({ digits: digits.slice(), matrix: matrix.map(row => row.slice()) })
+    }, leaves => {
+      pruned += leaves
+    }, prune)
+  }
+  return { visits, pruned }
+}
+
+describe('digitsToIndex', () => {
+  it('reads digit i as the k^i place', () => {
+    expect(digitsToIndex([1, 2, 0], 3)).toBe(7n)
+    expect(digitsToIndex([], 3)).toBe(0n)
+  })
+})
+
+describe('walkChunk', () => {
+  it('visits every coloring once in reflected Gray-code order', () => {
+    expect(n).toBe(7)
+    const { visits, pruned } = walkAll(false)
+    expect(pruned).toBe(0)
+    expect(visits).toHaveLength(k ** n)
+    expect(new Set(visits.map(v => digitsToIndex(v.digits, k))).size).toBe(k ** n)
+    const plan = planExhaustive(n, k)
+    const chunkSize = k ** (n - plan.prefixDigits)
+    for (let i = 1; i < visits.length; i++) {
+      if (i % chunkSize === 0) continue
+      const changed = visits[i].digits.filter((d, v) => d !== visits[i - 1].digits[v])
+      expect(changed).toHaveLength(1)
+    }
+  })
+
+  it('keeps the incrementally updated Laplacian equal to a fresh one', () => {
+    for (const { digits, matrix } of walkAll(false).visits) {
+      expect(matrix).toEqual(buildLaplacian(digits, ctx))
+    }
+  })
+
+  it('prunes only colorings whose principal minors all vanish', () => {
+    const all = walkAll(false).visits
+    const { visits, pruned } = walkAll(true)
+    expect(pruned).toBeGreaterThan(0)
+    expect(visits.length + pruned).toBe(k ** n)
+    const kept = new Set(visits.map(v => v.digits.join('')))
+    for (const { digits, matrix } of all) {
+      if (kept.has(digits.join(''))) continue
+      expect(principalMinors(matrix).every(det => det === 0n)).toBe(true)
+    }
+  })
+})
@@ -0,0 +1,157 @@
+// 全探索エンジン: 上位桁を固定したチャンクごとに、残りの桁を k 進反射 Gray コード順に走査する
+// 隣り合う塗り分けは 1 つの三角形の色だけが異なるので、ラプラシアンは O(次数) で差分更新できる
+// 主小行列式も、頻繁に色が変わる三角形の行・列を最後に消去して手前までの消去を使い回す (createIncrementalMinors)
+// 行列木定理に基づき、非ゼロ重みグラフが非連結になる部分木は行列式を計算せずに枝刈りする
+
+// チャンク数の目安 (3 色なら上位 4 桁で 81 チャンク)
+const TARGET_CHUNKS = 81
+
+// 輪郭の隣接関係と色の重み
+export interface WeightedShape {
+  neighbors: number[][]
+  // weights[a][b] = 桁 a (色 a+1) の三角形から桁 b の隣接三角形への重み
+  weights: number[][]
+  k: number
+}
+
+export interface ExhaustivePlan {
+  prefixDigits: number
+  chunkCount: number
+}
+
+export function planExhaustive(n: number, k: number): ExhaustivePlan {
+  const prefixDigits = Math.min(n, Math.max(1, Math.floor(Math.log(TARGET_CHUNKS) / Math.log(k) + 1e-9)))
+  return { prefixDigits, chunkCount: Math.pow(k, prefixDigits) }
+}
+
+// 桁配列 (添字 i が k^i の桁) から k 進インデックスへ
+export function digitsToIndex(digits: number[], k: number): bigint {
+  const base = BigInt(k)
+  let index = 0n
+  for (let i = digits.length - 1; i >= 0; i--) {
+    index = index * base + BigInt(digits[i])
+  }
+  return index
+}
+
+// 桁配列から塗り分けのラプラシアンを構築 (色 = 桁 + 1)
+export function buildLaplacian(digits: number[], { neighbors, weights }: WeightedShape): number[][] {
+  const n = digits.length
+  const mat: number[][] = Array(n).fill(null).map(() => Array(n).fill(0))
+  for (let i = 0; i < n; i++) {
+    for (const j of neighbors[i]) {
+      const w = weights[digits[i]][digits[j]]
+      mat[i][j] = -w
+      mat[i][i] += w
+    }
+  }
+  return mat
+}
+
+// v の色を変えたときのラプラシアンの差分更新
+function recolor(mat: number[][], digits: number[], { neighbors, weights }: WeightedShape, v: number, digit: number) {
+  const old = digits[v]
+  digits[v] = digit
+  for (const u of neighbors[v]) {
+    const du = digits[u]
+    mat[v][u] = -weights[digit][du]
+    mat[v][v] += weights[digit][du] - weights[old][du]
+    mat[u][v] = -weights[du][digit]
+    mat[u][u] += weights[du][digit] - weights[du][old]
+  }
+}
+
+// 非ゼロ重みの辺 (どちら向きかの重みが非ゼロの隣接対) のグラフが連結になり得るか
+// 添字が unassignedBelow 未満の三角形は未割り当てとみなし、その辺は非ゼロになり得るものとして扱う。
+// 非連結ならラプラシアンはブロック対角になり (各ブロックは行和 0 で特異)、全ての主小行列式が 0 になる
+export function isPotentiallyConnected(digits: number[], graph: WeightedShape, unassignedBelow: number): boolean {
+  const { neighbors, weights } = graph
+  const n = digits.length
+  if (n === 0) return true
+
+  const visited = new Uint8Array(n)
+  const stack = [0]
+  visited[0] = 1
+  let count = 1
+  while (stack.length > 0) {
+    const v = stack.pop()!
+    for (const u of neighbors[v]) {
+      if (visited[u]) continue
+      if (v >= unassignedBelow && u >= unassignedBelow &&
+          weights[digits[v]][digits[u]] === 0 && weights[digits[u]][digits[v]] === 0) continue
+      visited[u] = 1
+      count++
+      stack.push(u)
+    }
+  }
+  return count === n
+}
+
+// チャンク (上位 prefixDigits 桁の値) 内の塗り分けを、上位桁から割り当てるバックトラックで訪問する
+// 各桁の値を反射順に並べるので、枝刈りがなければ訪問順は k 進反射 Gray コードになる。
+// 割り当て済みの部分だけで非ゼロ重みグラフの非連結が確定した部分木は訪問せず、葉の数を onPrune に渡す。
+// visit に渡す digits と matrix は走査中に書き換わるので、保持する場合はコピーすること。
+// visit が false を返すと走査を打ち切り、walkChunk は false を返す
+// prune = false なら枝刈りせずに全ての塗り分けを訪問する (行列式が全て 0 でも残す条件のとき)
+export function walkChunk(
+  graph: WeightedShape,
+  prefixDigits: number,
+  chunk: number,
+  visit: (digits: number[], matrix: number[][]) => boolean | void,
+  onPrune: (leaves: number) => void,
+  prune = true
+): boolean {
+  const { neighbors, weights, k } = graph
+  const n = neighbors.length
+  const m = n - prefixDigits
+  const digits = new Array<number>(n).fill(0)
+  let rest = chunk
+  for (let i = m; i < n; i++) {
+    digits[i] = rest % k
+    rest = Math.floor(rest / k)
+  }
+
+  if (prune && !isPotentiallyConnected(digits, graph, m)) {
+    onPrune(Math.pow(k, m))
+    return true
+  }
+
+  const mat = buildLaplacian(digits, graph)
+  const dir = new Array<number>(m).fill(1)
+
+  // 桁 v を割り当てた直後に非連結が確定したか (重み 0 の割り当て済み隣接がなければ辺は減っていない)
+  const cutsOff = (v: number): boolean => {
+    if (!prune) return false
+    const lostEdge = neighbors[v].some(u =>
+      u > v && weights[digits[v]][digits[u]] === 0 && weights[digits[u]][digits[v]] === 0
+    )
+    return lostEdge && !isPotentiallyConnected(digits, graph, v)
+  }
+
+  let stopped = false
+
+  // 未割り当ての桁 0..rest-1 を割り当てる
+  const descend = (rest: number) => {
+    if (rest === 0) {
+      if (visit(digits, mat) === false) stopped = true
+      return
+    }
+    const v = rest - 1
+    for (let t = 0; t < k; t++) {
+      const value = dir[v] > 0 ? t : k - 1 - t
+      if (digits[v] !== value) {
+        recolor(mat, digits, graph, v, value)
+      }
+      if (cutsOff(v)) {
+        onPrune(Math.pow(k, v))
+        continue
+      }
+      descend(v)
+      if (stopped) return
+    }
+    dir[v] = -dir[v]
+  }
+
+  descend(m)
+  return !stopped
+}
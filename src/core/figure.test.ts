@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { COLOR_VALUES } from './colors.ts'
+import { DEFAULT_FIGURE_OPTIONS, FIGURE_UNIT, figureToSvg, figureToTikz, type FigureOptions } from './figure.ts'
+import { getLattice } from './lattice.ts'
+
+const square = getLattice('square')
+const triangle = getLattice('triangle')
+const plain: FigureOptions = { gridLines: false, originMarker: false, vertexLabels: false, palette: 'color' }
+
+// 塗りのあるパスの fill
+const fills = (svg: string) => [...svg.matchAll(/<path [^>]*fill="(#[0-9a-f]{6})"/g)].map(m => m[1])
+
+describe('figureToSvg', () => {
+  it('draws each colored cell in vertex order and sizes the picture to them', () => {
+    const colors = new Map([['0,0', 1], ['1,0', 2]])
+    const svg = figureToSvg(colors, 3, square, plain)
+    expect(fills(svg)).toEqual([COLOR_VALUES[1], COLOR_VALUES[2]])
+    // 2 × 1 のセルと周囲の余白 (単位の 1/4)
+    const margin = FIGURE_UNIT / 4
+    expect(svg).toContain(`width="${2 * FIGURE_UNIT + 2 * margin}" height="${FIGURE_UNIT + 2 * margin}"`)
+    expect(svg).not.toContain('<text')
+  })
+
+  it('skips transparent cells and colors beyond k', () => {
+    const colors = new Map([['0,0', 1], ['1,0', 0], ['2,0', 4]])
+    expect(fills(figureToSvg(colors, 3, square, plain))).toEqual([COLOR_VALUES[1]])
+    expect(fills(figureToSvg(colors, 4, square, plain))).toEqual([COLOR_VALUES[1], COLOR_VALUES[4]])
+  })
+
+  it('adds grid lines, labels, origin and grayscale on request', () => {
+    // 離れた 2 つの三角形の間に透過のセルがある
+    const colors = new Map([['0,0,u', 1], ['2,0,u', 3]])
+    const svg = figureToSvg(colors, 3, triangle, { gridLines: true, originMarker: true, vertexLabels: true, palette: 'grayscale' })
+    expect(svg.match(/fill="none"/g)?.length).toBeGreaterThanOrEqual(1)
+    expect([...svg.matchAll(/>v(\d+)</g)].map(m => m[1])).toEqual(['0', '1'])
+    expect(svg).toContain('<circle')
+    for (const fill of fills(svg)) expect(fill.slice(1, 3).repeat(3)).toBe(fill.slice(1))
+  })
+
+  it('keeps the default options valid', () => {
+    expect(figureToSvg(new Map(), 3, triangle, DEFAULT_FIGURE_OPTIONS)).toMatch(/^<svg [^>]*>\n<\/svg>\n$/)
+  })
+})
+
+describe('figureToTikz', () => {
+  it('defines each fill once and draws every colored cell', () => {
+    const colors = new Map([['0,0', 1], ['1,0', 1], ['0,1', 2]])
+    const tikz = figureToTikz(colors, 3, square, { ...plain, vertexLabels: true })
+    expect(tikz.match(/\\definecolor/g)).toHaveLength(2)
+    expect(tikz.match(/\\filldraw/g)).toHaveLength(3)
+    expect(tikz).toContain('\\filldraw[fill=cell0, draw=cell0, line join=round] (-0.5,-0.5) -- (-0.5,0.5) -- (0.5,0.5) -- (0.5,-0.5) -- cycle;')
+    expect(tikz).toContain('{$v_{2}$}')
+    expect(tikz.startsWith('% \\usepackage{tikz}\n')).toBe(true)
+    expect(tikz.trimEnd().endsWith('\\end{tikzpicture}')).toBe(true)
+  })
+
+  it('draws grid lines with their own color', () => {
+    const tikz = figureToTikz(new Map([['0,0', 1], ['2,0', 1]]), 3, square, { ...plain, gridLines: true })
+    expect(tikz).toContain('\\definecolor{gridline}')
+    expect(tikz).toContain('\\draw[gridline] (0.5,-0.5) -- (0.5,0.5) -- (1.5,0.5) -- (1.5,-0.5) -- cycle;')
+  })
+})
@@ -0,0 +1,181 @@
+// 論文・スライド用の図の出力 (単体の SVG と TikZ)
+// 座標は格子座標 (y 上向き) をそのまま使い、SVG では上下を反転する
+import { COLOR_VALUES, type Color } from './colors.ts'
+import type { Lattice, Point } from './lattice.ts'
+
+export type FigurePalette = 'color' | 'grayscale'
+
+export interface FigureOptions {
+  // 塗り分けを囲む範囲の格子線 (透過のセルも含む)
+  gridLines: boolean
+  originMarker: boolean
+  // 行列パネルの v{i}(...) と同じ番号
+  vertexLabels: boolean
+  palette: FigurePalette
+}
+
+export const DEFAULT_FIGURE_OPTIONS: FigureOptions = {
+  gridLines: true,
+  originMarker: false,
+  vertexLabels: false,
+  palette: 'color',
+}
+
+// SVG の 1 格子単位のピクセル数
+export const FIGURE_UNIT = 40
+
+const GRID_COLOR = '#bbbbbb'
+const ORIGIN_COLOR = '#d9534f'
+
+interface FigureCell {
+  polygon: Point[]
+  center: Point
+  fill: string
+  // 頂点番号 (ラプラシアンの行番号)
+  index: number
+}
+
+interface FigureLayout {
+  // 色つきのセル (頂点番号順) と、格子線だけを描く透過のセル
+  cells: FigureCell[]
+  gridCells: Point[][]
+  min: Point
+  max: Point
+}
+
+// 輝度で灰色に変換
+function toGray(hex: string): string {
+  const r = parseInt(hex.slice(1, 3), 16)
+  const g = parseInt(hex.slice(3, 5), 16)
+  const b = parseInt(hex.slice(5, 7), 16)
+  const l = Math.round(0.299 * r + 0.587 * g + 0.114 * b).toString(16).padStart(2, '0')
+  return `#${l}${l}${l}`
+}
+
+function fillColor(color: Color, palette: FigurePalette): string {
+  const hex = COLOR_VALUES[color]
+  return palette === 'grayscale' ? toGray(hex) : hex
+}
+
+// 塗りの上に置く文字の色
+function labelColor(fill: string): string {
+  return parseInt(toGray(fill).slice(1, 3), 16) < 128 ? '#ffffff' : '#000000'
+}
+
+const round = (v: number) => Math.round(v * 1e4) / 1e4
+
+// 描くセルと範囲を決める (頂点番号はラプラシアンと同じく colors の挿入順)
+function layoutFigure(colors: Map<string, Color>, k: number, lattice: Lattice, options: FigureOptions): FigureLayout {
+  const cells: FigureCell[] = []
+  colors.forEach((color, key) => {
+    if (color === 0 || color > k) return
+    const coord = lattice.parseKey(key)
+    cells.push({
+      polygon: lattice.polygon(coord),
+      center: lattice.centroid(coord),
+      fill: fillColor(color, options.palette),
+      index: cells.length
+    })
+  })
+
+  const points = cells.flatMap(c => c.polygon)
+  if (options.originMarker) points.push({ x: 0, y: 0 })
+  if (points.length === 0) return { cells, gridCells: [], min: { x: -1, y: -1 }, max: { x: 1, y: 1 } }
+  const min = { x: Math.min(...points.map(p => p.x)), y: Math.min(...points.map(p => p.y)) }
+  const max = { x: Math.max(...points.map(p => p.x)), y: Math.max(...points.map(p => p.y)) }
+
+  // 範囲内に重心がある透過のセルも格子線として描く (はみ出した分だけ範囲を広げる)
+  const gridCells: Point[][] = []
+  if (options.gridLines) {
+    for (const coord of lattice.cellsInRect(min, max)) {
+      const center = lattice.centroid(coord)
+      if ((colors.get(lattice.key(coord)) ?? 0) !== 0) continue
+      if (center.x < min.x || center.x > max.x || center.y < min.y || center.y > max.y) continue
+      gridCells.push(lattice.polygon(coord))
+    }
+    for (const p of gridCells.flat()) {
+      min.x = Math.min(min.x, p.x)
+      min.y = Math.min(min.y, p.y)
+      max.x = Math.max(max.x, p.x)
+      max.y = Math.max(max.y, p.y)
+    }
+  }
+  return { cells, gridCells, min, max }
+}
+
+export function figureToSvg(
+  colors: Map<string, Color>,
+  k: number,
+  lattice: Lattice,
+  options: FigureOptions,
+  unit = FIGURE_UNIT
+): string {
+  const { cells, gridCells, min, max } = layoutFigure(colors, k, lattice, options)
+  const margin = unit / 4
+  const width = round((max.x - min.x) * unit + margin * 2)
+  const height = round((max.y - min.y) * unit + margin * 2)
+  const sx = (x: number) => round((x - min.x) * unit + margin)
+  const sy = (y: number) => round((max.y - y) * unit + margin)
+  const path = (polygon: Point[]) => polygon.map((p, i) => `${i === 0 ? 'M' : 'L'} ${sx(p.x)} ${sy(p.y)}`).join(' ') + ' Z'
+
+  const lines = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+  ]
+  // 格子線を先に描き、色つきのセルの辺が上に来るようにする
+  for (const polygon of gridCells) {
+    lines.push(`  <path d="${path(polygon)}" fill="none" stroke="${GRID_COLOR}" stroke-width="1"/>`)
+  }
+  for (const cell of cells) {
+    // 格子線なしでも隣り合うセルの間に隙間が見えないよう、同じ色で縁取る
+    const stroke = options.gridLines ? GRID_COLOR : cell.fill
+    lines.push(`  <path d="${path(cell.polygon)}" fill="${cell.fill}" stroke="${stroke}" stroke-width="1" stroke-linejoin="round"/>`)
+  }
+  if (options.vertexLabels) {
+    const fontSize = round(unit / 4)
+    for (const cell of cells) {
+      lines.push(`  <text x="${sx(cell.center.x)}" y="${sy(cell.center.y)}" font-family="sans-serif" font-size="${fontSize}" text-anchor="middle" dominant-baseline="central" fill="${labelColor(cell.fill)}">v${cell.index}</text>`)
+    }
+  }
+  if (options.originMarker) {
+    lines.push(`  <circle cx="${sx(0)}" cy="${sy(0)}" r="${round(unit / 12)}" fill="${options.palette === 'grayscale' ? toGray(ORIGIN_COLOR) : ORIGIN_COLOR}"/>`)
+  }
+  lines.push('</svg>')
+  return lines.join('\n') + '\n'
+}
+
+export function figureToTikz(colors: Map<string, Color>, k: number, lattice: Lattice, options: FigureOptions): string {
+  const { cells, gridCells } = layoutFigure(colors, k, lattice, options)
+  const colorNames = new Map<string, string>()
+  const colorName = (hex: string) => {
+    if (!colorNames.has(hex)) colorNames.set(hex, `cell${colorNames.size}`)
+    return colorNames.get(hex)!
+  }
+  const path = (polygon: Point[]) => polygon.map(p => `(${round(p.x)},${round(p.y)})`).join(' -- ') + ' -- cycle'
+
+  const body: string[] = gridCells.map(polygon => `  \\draw[gridline] ${path(polygon)};`)
+  for (const cell of cells) {
+    const stroke = options.gridLines ? 'gridline' : colorName(cell.fill)
+    body.push(`  \\filldraw[fill=${colorName(cell.fill)}, draw=${stroke}, line join=round] ${path(cell.polygon)};`)
+  }
+  if (options.vertexLabels) {
+    for (const cell of cells) {
+      const text = labelColor(cell.fill) === '#ffffff' ? 'white' : 'black'
+      body.push(`  \\node[font=\\tiny, text=${text}] at (${round(cell.center.x)},${round(cell.center.y)}) {$v_{${cell.index}}$};`)
+    }
+  }
+  if (options.originMarker) {
+    const origin = options.palette === 'grayscale' ? toGray(ORIGIN_COLOR) : ORIGIN_COLOR
+    body.push(`  \\fill[${colorName(origin)}] (0,0) circle (0.06);`)
+  }
+
+  const definitions = Array.from(colorNames, ([hex, name]) => `\\definecolor{${name}}{HTML}{${hex.slice(1).toUpperCase()}}`)
+  if (options.gridLines) definitions.push(`\\definecolor{gridline}{HTML}{${GRID_COLOR.slice(1).toUpperCase()}}`)
+  return [
+    '% \\usepackage{tikz}',
+    ...definitions,
+    '\\begin{tikzpicture}[x=1cm, y=1cm, line width=0.4pt]',
+    ...body,
+    '\\end{tikzpicture}',
+    ''
+  ].join('\n')
+}
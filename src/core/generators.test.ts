@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { GENERATORS, describeGenerator, generateShape, initialParams, type GeneratorKind, type GeneratorParams } from './generators.ts'
+import { getLattice } from './lattice.ts'
+import { findShapeAutomorphisms } from './symmetry.ts'
+
+const lattice = getLattice('triangle')
+
+describe('generateShape', () => {
+  // 三角形の数: 六角形 2(ab+bc+ca), 三角形 n², 平行四辺形 2ab, 台形 h(2a-h), 六角環 6(n²-m²)
+  const cases: [GeneratorKind, GeneratorParams, number][] = [
+    ['hexagon', { a: 1, b: 1, c: 1 }, 6],
+    ['hexagon', { a: 2, b: 2, c: 2 }, 24],
+    ['hexagon', { a: 3, b: 1, c: 2 }, 22],
+    ['triangle', { n: 3 }, 9],
+    ['parallelogram', { a: 3, b: 2 }, 12],
+    ['trapezoid', { a: 4, h: 2 }, 12],
+    ['annulus', { n: 3, m: 1 }, 48],
+  ]
+  for (const [kind, params, count] of cases) {
+    it(`builds ${describeGenerator(kind, params)}`, () => {
+      const shape = generateShape(lattice, kind, params, { i: 0, j: 0 })
+      expect(shape).toHaveLength(count)
+      expect(new Set(shape.map(lattice.key)).size).toBe(count)
+      // 基準点を格子の平行移動でずらしても形は変わらない
+      expect(generateShape(lattice, kind, params, { i: 2, j: -1 })).toHaveLength(count)
+    })
+  }
+
+  it('keeps the symmetry of regular shapes', () => {
+    expect(findShapeAutomorphisms(lattice, generateShape(lattice, 'hexagon', { a: 2, b: 2, c: 2 }, { i: 0, j: 0 }))).toHaveLength(12)
+    expect(findShapeAutomorphisms(lattice, generateShape(lattice, 'annulus', { n: 3, m: 1 }, { i: 0, j: 0 }))).toHaveLength(12)
+    expect(findShapeAutomorphisms(lattice, generateShape(lattice, 'triangle', { n: 3 }, { i: 0, j: 0 }))).toHaveLength(6)
+  })
+
+  it('rejects invalid parameters', () => {
+    const offset = { i: 0, j: 0 }
+    expect(() => generateShape(lattice, 'hexagon', { a: 0, b: 1, c: 1 }, offset)).toThrow('a must be an integer >= 1')
+    expect(() => generateShape(lattice, 'triangle', { n: 1.5 }, offset)).toThrow()
+    expect(() => generateShape(lattice, 'trapezoid', { a: 3, h: 3 }, offset)).toThrow('trapezoid height')
+    expect(() => generateShape(lattice, 'annulus', { n: 2, m: 2 }, offset)).toThrow('annulus hole')
+  })
+
+  it('accepts the initial parameters of every generator', () => {
+    for (const kind of Object.keys(GENERATORS) as GeneratorKind[]) {
+      expect(generateShape(lattice, kind, initialParams(kind), { i: 0, j: 0 }).length).toBeGreaterThan(0)
+    }
+  })
+})
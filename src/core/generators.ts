@@ -0,0 +1,133 @@
+// 定型の輪郭 (六角形・三角形・平行四辺形・台形・六角環) の生成
+// 辺は格子の 60° 刻みの方向に沿った多角形で表し、その内側に重心があるセルを輪郭にする
+import type { CellCoord, Lattice, Point } from './lattice.ts'
+import { cellsInPolygon } from './tools.ts'
+
+export type GeneratorKind = 'hexagon' | 'triangle' | 'parallelogram' | 'trapezoid' | 'annulus'
+
+export interface GeneratorParam {
+  name: string
+  label: string
+  min: number
+  initial: number
+}
+
+export const GENERATORS: Record<GeneratorKind, { label: string; params: GeneratorParam[] }> = {
+  hexagon: {
+    label: '六角形',
+    params: [
+      { name: 'a', label: 'a', min: 1, initial: 2 },
+      { name: 'b', label: 'b', min: 1, initial: 2 },
+      { name: 'c', label: 'c', min: 1, initial: 2 },
+    ],
+  },
+  triangle: {
+    label: '三角形',
+    params: [{ name: 'n', label: '一辺', min: 1, initial: 3 }],
+  },
+  parallelogram: {
+    label: '平行四辺形',
+    params: [
+      { name: 'a', label: '底辺', min: 1, initial: 3 },
+      { name: 'b', label: '斜辺', min: 1, initial: 2 },
+    ],
+  },
+  trapezoid: {
+    label: '台形',
+    params: [
+      { name: 'a', label: '下底', min: 2, initial: 4 },
+      { name: 'h', label: '高さ', min: 1, initial: 2 },
+    ],
+  },
+  annulus: {
+    label: '六角環',
+    params: [
+      { name: 'n', label: '外側', min: 2, initial: 3 },
+      { name: 'm', label: '穴', min: 1, initial: 1 },
+    ],
+  },
+}
+
+export type GeneratorParams = Record<string, number>
+
+// 基準点の位置 (格子の回転中心から、横方向 i 歩と 60° 方向 j 歩)
+export interface GeneratorOffset {
+  i: number
+  j: number
+}
+
+const H = Math.sqrt(3) / 2
+
+// 0°, 60°, ..., 300° の単位ベクトル
+const DIRECTIONS: Point[] = Array.from({ length: 6 }, (_, d) => ({
+  x: Math.cos(d * Math.PI / 3),
+  y: Math.sin(d * Math.PI / 3)
+}))
+
+// start から [方向, 長さ] の順に辺を辿った多角形 (反時計回りなら凸多角形になる)
+function walk(start: Point, sides: [number, number][]): Point[] {
+  const points: Point[] = []
+  let p = start
+  for (const [d, length] of sides) {
+    if (length === 0) continue
+    points.push(p)
+    p = { x: p.x + DIRECTIONS[d].x * length, y: p.y + DIRECTIONS[d].y * length }
+  }
+  return points
+}
+
+// 中心 center, 一辺 size の正六角形
+function regularHexagon(center: Point, size: number): Point[] {
+  return walk({ x: center.x - size / 2, y: center.y - size * H }, [0, 1, 2, 3, 4, 5].map(d => [d, size]))
+}
+
+export function generatorAnchor(lattice: Lattice, offset: GeneratorOffset): Point {
+  const { rotationCenter: c } = lattice
+  return { x: c.x + offset.i + offset.j / 2, y: c.y + offset.j * H }
+}
+
+// パラメータを確認する (不正なら Error)
+function validate(kind: GeneratorKind, params: GeneratorParams) {
+  for (const { name, min } of GENERATORS[kind].params) {
+    const v = params[name]
+    if (!Number.isInteger(v) || v < min) throw new Error(`${name} must be an integer >= ${min}`)
+  }
+  if (kind === 'trapezoid' && params.h >= params.a) throw new Error('trapezoid height must be less than its base')
+  if (kind === 'annulus' && params.m >= params.n) throw new Error('annulus hole must be smaller than its outer side')
+}
+
+// 輪郭の外周と穴 (基準点は六角形・平行四辺形・三角形・台形では左下の角、六角環では中心)
+export function generatorPolygons(kind: GeneratorKind, params: GeneratorParams, anchor: Point): { outer: Point[]; holes: Point[][] } {
+  validate(kind, params)
+  switch (kind) {
+    case 'hexagon': {
+      const { a, b, c } = params
+      return { outer: walk(anchor, [[0, a], [1, b], [2, c], [3, a], [4, b], [5, c]]), holes: [] }
+    }
+    case 'triangle':
+      return { outer: walk(anchor, [[0, params.n], [2, params.n], [4, params.n]]), holes: [] }
+    case 'parallelogram':
+      return { outer: walk(anchor, [[0, params.a], [1, params.b], [3, params.a], [4, params.b]]), holes: [] }
+    case 'trapezoid': {
+      const { a, h } = params
+      return { outer: walk(anchor, [[0, a], [2, h], [3, a - h], [4, h]]), holes: [] }
+    }
+    case 'annulus':
+      return { outer: regularHexagon(anchor, params.n), holes: [regularHexagon(anchor, params.m)] }
+  }
+}
+
+export function generateShape(lattice: Lattice, kind: GeneratorKind, params: GeneratorParams, offset: GeneratorOffset): CellCoord[] {
+  const { outer, holes } = generatorPolygons(kind, params, generatorAnchor(lattice, offset))
+  const removed = new Set(holes.flatMap(hole => cellsInPolygon(lattice, hole)).map(lattice.key))
+  return cellsInPolygon(lattice, outer).filter(cell => !removed.has(lattice.key(cell)))
+}
+
+// 例: 六角形 a=2, b=2, c=2
+export function describeGenerator(kind: GeneratorKind, params: GeneratorParams): string {
+  return `${GENERATORS[kind].label} ${GENERATORS[kind].params.map(p => `${p.name}=${params[p.name]}`).join(', ')}`
+}
+
+export function initialParams(kind: GeneratorKind): GeneratorParams {
+  return Object.fromEntries(GENERATORS[kind].params.map(p => [p.name, p.initial]))
+}
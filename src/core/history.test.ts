@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { MAX_HISTORY, createHistory, currentState, moveHistory, pushHistory } from './history.ts'
+
+describe('history', () => {
+  it('undoes and redoes, and drops redo entries on a new edit', () => {
+    let history = createHistory('初期', 0)
+    history = pushHistory(history, 'a', 1)
+    history = pushHistory(history, 'b', 2)
+    expect(currentState(history)).toBe(2)
+
+    const undone = moveHistory(history, history.index - 1)
+    expect(currentState(undone)).toBe(1)
+    expect(currentState(moveHistory(undone, undone.index + 1))).toBe(2)
+    // 元の履歴は変わらない
+    expect(currentState(history)).toBe(2)
+
+    const branched = pushHistory(undone, 'c', 3)
+    expect(branched.entries.map(e => e.label)).toEqual(['初期', 'a', 'c'])
+    expect(currentState(branched)).toBe(3)
+  })
+
+  it('ignores moves out of range', () => {
+    const history = pushHistory(createHistory('初期', 0), 'a', 1)
+    expect(moveHistory(history, -1)).toBe(history)
+    expect(moveHistory(history, 2)).toBe(history)
+    expect(moveHistory(history, history.index)).toBe(history)
+  })
+
+  it('merges consecutive edits of the same group', () => {
+    let history = createHistory('初期', 0)
+    history = pushHistory(history, '塗り', 1, 'stroke-1')
+    history = pushHistory(history, '塗り', 2, 'stroke-1')
+    history = pushHistory(history, '塗り', 3, 'stroke-1')
+    expect(history.entries).toHaveLength(2)
+    expect(currentState(history)).toBe(3)
+    history = pushHistory(history, '塗り', 4, 'stroke-2')
+    expect(history.entries).toHaveLength(3)
+    // 最初の状態には group がないのでまとめない
+    expect(pushHistory(createHistory('初期', 0), '塗り', 1, 'stroke-1').entries).toHaveLength(2)
+  })
+
+  it(`keeps at most ${MAX_HISTORY} entries`, () => {
+    let history = createHistory('初期', 0)
+    for (let i = 1; i <= MAX_HISTORY + 10; i++) history = pushHistory(history, `edit ${i}`, i)
+    expect(history.entries).toHaveLength(MAX_HISTORY)
+    expect(history.index).toBe(MAX_HISTORY - 1)
+    expect(currentState(history)).toBe(MAX_HISTORY + 10)
+    expect(history.entries[0].state).toBe(11)
+  })
+})
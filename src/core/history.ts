@@ -0,0 +1,46 @@
+// 編集履歴 (元に戻す・やり直し)。状態はスナップショットとして丸ごと保持する
+
+// 保持する履歴の上限 (古いものから捨てる)
+export const MAX_HISTORY = 200
+
+export interface HistoryEntry<T> {
+  label: string
+  state: T
+  // 同じ group の連続した変更 (ドラッグ塗りの 1 ストロークなど) は 1 件にまとめる
+  group?: string
+}
+
+export interface History<T> {
+  entries: HistoryEntry<T>[]
+  // 現在の状態の位置 (これより後ろはやり直し用)
+  index: number
+}
+
+export function createHistory<T>(label: string, state: T): History<T> {
+  return { entries: [{ label, state }], index: 0 }
+}
+
+export function currentState<T>(history: History<T>): T {
+  return history.entries[history.index].state
+}
+
+// 新しい状態を積む (やり直し用の履歴は破棄する)
+export function pushHistory<T>(history: History<T>, label: string, state: T, group?: string): History<T> {
+  const current = history.entries[history.index]
+  if (group !== undefined && current.group === group && history.index > 0) {
+    const entries = history.entries.slice(0, history.index)
+    entries.push({ label, state, group })
+    return { entries, index: history.index }
+  }
+
+  const entries = history.entries.slice(0, history.index + 1)
+  entries.push({ label, state, group })
+  const overflow = Math.max(0, entries.length - MAX_HISTORY)
+  return { entries: entries.slice(overflow), index: entries.length - 1 - overflow }
+}
+
+// 指定位置の状態へ移動する (範囲外なら何もしない)
+export function moveHistory<T>(history: History<T>, index: number): History<T> {
+  if (index < 0 || index >= history.entries.length || index === history.index) return history
+  return { ...history, index }
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_COLOR_SYSTEM } from './colors.ts'
+import {
+  LATTICES,
+  buildNeighborIndex,
+  coloringFromJSON,
+  coloringToJSON,
+  computeConnectedComponents,
+  connectedRegion,
+  getLattice,
+  parseColoringDocument,
+  type CellCoord,
+  type Lattice,
+  type Point,
+} from './lattice.ts'
+
+const near = (p: Point, q: Point) => Math.abs(p.x - q.x) < 1e-9 && Math.abs(p.y - q.y) < 1e-9
+
+// 原点付近の全てのセル
+const sampleCells = (lattice: Lattice) => lattice.cellsInRect({ x: -2, y: -2 }, { x: 2, y: 2 })
+
+describe('lattices', () => {
+  for (const lattice of Object.values(LATTICES)) {
+    it(`${lattice.id}: keys, centroids and adjacency agree`, () => {
+      const degree = { triangle: 3, square: 4, hexagon: 6 }[lattice.id]
+      for (const cell of sampleCells(lattice)) {
+        const key = lattice.key(cell)
+        expect(lattice.key(lattice.parseKey(key))).toBe(key)
+        const found = lattice.cellAt(lattice.centroid(cell))
+        expect(found && lattice.key(found)).toBe(key)
+        expect(lattice.polygon(cell)).toHaveLength(degree)
+
+        const neighbors = lattice.neighbors(cell)
+        expect(new Set(neighbors.map(lattice.key)).size).toBe(degree)
+        for (const neighbor of neighbors) {
+          // 隣接は対称で、辺 (2 頂点) を共有する
+          expect(lattice.neighbors(neighbor).map(lattice.key)).toContain(key)
+          const shared = lattice.polygon(cell).filter(p => lattice.polygon(neighbor).some(q => near(p, q)))
+          expect(shared).toHaveLength(2)
+        }
+      }
+    })
+
+    it(`${lattice.id}: lists every cell whose centroid lies in a rectangle`, () => {
+      const min = { x: -1.3, y: -0.7 }
+      const max = { x: 2.1, y: 1.6 }
+      const listed = new Set(lattice.cellsInRect(min, max).map(lattice.key))
+      for (const cell of lattice.cellsInRect({ x: -4, y: -4 }, { x: 4, y: 4 })) {
+        const c = lattice.centroid(cell)
+        if (c.x >= min.x && c.x <= max.x && c.y >= min.y && c.y <= max.y) expect(listed).toContain(lattice.key(cell))
+      }
+    })
+
+    it(`${lattice.id}: has no cell away from centroids`, () => {
+      const cell = sampleCells(lattice)[0]
+      const c = lattice.centroid(cell)
+      expect(lattice.cellAt({ x: c.x + 0.2, y: c.y })).toBeNull()
+    })
+  }
+})
+
+describe('colorings', () => {
+  const lattice = getLattice('triangle')
+  // 白 2 つが隣接し、黒 1 つが離れている
+  const colors = new Map([
+    ['0,0,u', 1],
+    ['1,0,d', 1],
+    ['3,0,d', 2],
+    ['-1,0,d', 0],
+  ])
+
+  it('round-trips through JSON cells without transparent cells', () => {
+    const cells = coloringToJSON(colors, lattice)
+    expect(cells.map(c => c.color)).toEqual(['white', 'white', 'black'])
+    expect(coloringFromJSON(cells, 3, lattice)).toEqual(new Map([...colors].filter(([, c]) => c !== 0)))
+    // 色数を超える色は読み込まない
+    expect(coloringFromJSON([...cells, { coord: { x: 5, y: 0, isUp: false }, color: 'red' }], 3, lattice).size).toBe(3)
+  })
+
+  it('counts components per color and bounds regions', () => {
+    expect(computeConnectedComponents(colors, 3, lattice)).toEqual([1, 1, 0])
+    expect(connectedRegion(colors, '0,0,u', lattice).sort()).toEqual(['0,0,u', '1,0,d'])
+    expect(connectedRegion(colors, '0,0,u', lattice, new Set(['0,0,u']))).toEqual(['0,0,u'])
+  })
+
+  it('indexes neighbors inside a shape', () => {
+    const shape: CellCoord[] = [{ x: 0, y: 0, isUp: true }, { x: 1, y: 0, isUp: false }, { x: 2, y: 0, isUp: true }, { x: 5, y: 0, isUp: false }]
+    expect(buildNeighborIndex(shape, lattice)).toEqual([[1], [0, 2], [1], []])
+  })
+})
+
+describe('parseColoringDocument', () => {
+  const cells = [{ coord: { x: 0, y: 0 }, color: 'white' as const }]
+  const colorSystem = { k: 4, rule: 'symmetric' as const, table: [] }
+
+  it('reads bare cell arrays as triangle colorings', () => {
+    expect(parseColoringDocument(cells)).toEqual({ lattice: 'triangle', colorSystem: DEFAULT_COLOR_SYSTEM, cells })
+  })
+
+  it('reads documents with a lattice and color system', () => {
+    const doc = parseColoringDocument({ lattice: 'hexagon', colorSystem, cells })
+    expect(doc.lattice).toBe('hexagon')
+    expect(doc.colorSystem.k).toBe(4)
+    expect(doc.colorSystem.rule).toBe('symmetric')
+    expect(doc.cells).toBe(cells)
+  })
+
+  it('rejects other shapes', () => {
+    expect(() => parseColoringDocument(null)).toThrow('cells is missing')
+    expect(() => parseColoringDocument({ colorSystem, triangles: cells })).toThrow('cells is missing')
+    expect(() => parseColoringDocument({ colorSystem, cells })).toThrow('unknown lattice')
+    expect(() => parseColoringDocument({ lattice: 'pentagon', colorSystem, cells })).toThrow('unknown lattice')
+  })
+})
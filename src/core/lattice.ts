@@ -0,0 +1,299 @@
+// 格子 (タイリング) の抽象化と塗り分け
+// セルの座標・隣接関係・描画用の幾何・キー形式は格子ごとに異なり、それ以外の処理は Lattice を通して共通に扱う
+import {
+  COLOR_NAMES,
+  DEFAULT_COLOR_SYSTEM,
+  colorIndexByName,
+  normalizeColorSystem,
+  type Color,
+  type ColorName,
+  type ColorSystem,
+} from './colors.ts'
+
+// セルの座標 (isUp は三角格子の向きで、他の格子では使わない)
+export interface CellCoord {
+  x: number
+  y: number
+  isUp?: boolean
+}
+
+export interface Point {
+  x: number
+  y: number
+}
+
+export type LatticeId = 'triangle' | 'square' | 'hexagon'
+
+export interface Lattice {
+  id: LatticeId
+  label: string
+  key: (c: CellCoord) => string
+  parseKey: (key: string) => CellCoord
+  // 辺を共有するセル
+  neighbors: (c: CellCoord) => CellCoord[]
+  // 重心と多角形の頂点 (隣接セルの間隔がおよそ 1 の座標系、y 軸は上向き)
+  centroid: (c: CellCoord) => Point
+  polygon: (c: CellCoord) => Point[]
+  // 重心がちょうど p にあるセル (なければ null)
+  cellAt: (p: Point) => CellCoord | null
+  // 格子を自分自身に移す回転の中心と次数 (鏡映は中心を通る縦軸について)
+  rotationCenter: Point
+  rotationOrder: number
+  // 長方形 [min, max] に一部でもかかるセル (表示範囲の列挙用、多少はみ出してよい)
+  cellsInRect: (min: Point, max: Point) => CellCoord[]
+}
+
+const H = Math.sqrt(3) / 2
+const EPS = 1e-6
+
+const near = (p: Point, q: Point) => Math.abs(p.x - q.x) < EPS && Math.abs(p.y - q.y) < EPS
+
+// 三角格子: (x + y) が偶数なら上向き。上向きは (x±1, y) と (x, y-1) の下向きに隣接
+const triangleLattice: Lattice = {
+  id: 'triangle',
+  label: '三角格子',
+  key: c => `${c.x},${c.y},${c.isUp ? 'u' : 'd'}`,
+  parseKey: key => {
+    const parts = key.split(',')
+    return { x: parseInt(parts[0]), y: parseInt(parts[1]), isUp: parts[2] === 'u' }
+  },
+  neighbors: c => c.isUp
+    ? [
+        { x: c.x - 1, y: c.y, isUp: false },
+        { x: c.x + 1, y: c.y, isUp: false },
+        { x: c.x, y: c.y - 1, isUp: false }
+      ]
+    : [
+        { x: c.x - 1, y: c.y, isUp: true },
+        { x: c.x + 1, y: c.y, isUp: true },
+        { x: c.x, y: c.y + 1, isUp: true }
+      ],
+  centroid: c => ({ x: c.x / 2, y: c.y * H + (c.isUp ? -H / 6 : H / 6) }),
+  polygon: c => {
+    const bx = c.x / 2
+    const by = c.y * H
+    return c.isUp
+      ? [{ x: bx - 0.5, y: by - H / 2 }, { x: bx, y: by + H / 2 }, { x: bx + 0.5, y: by - H / 2 }]
+      : [{ x: bx - 0.5, y: by + H / 2 }, { x: bx + 0.5, y: by + H / 2 }, { x: bx, y: by - H / 2 }]
+  },
+  cellAt: p => {
+    const x = Math.round(p.x * 2)
+    const y = Math.round(p.y / H)
+    const c = { x, y, isUp: (x + y) % 2 === 0 }
+    return near(triangleLattice.centroid(c), p) ? c : null
+  },
+  // 三角形 (0,0,u) の頂点
+  rotationCenter: { x: 0, y: H / 2 },
+  rotationOrder: 6,
+  cellsInRect: (min, max) => {
+    const cells: CellCoord[] = []
+    for (let y = Math.floor(min.y / H) - 1; y <= Math.ceil(max.y / H) + 1; y++) {
+      for (let x = Math.floor(min.x * 2) - 1; x <= Math.ceil(max.x * 2) + 1; x++) {
+        cells.push({ x, y, isUp: (x + y) % 2 === 0 })
+      }
+    }
+    return cells
+  }
+}
+
+// 正方格子: セル (x, y) の中心が (x, y)
+const squareLattice: Lattice = {
+  id: 'square',
+  label: '正方格子',
+  key: c => `${c.x},${c.y}`,
+  parseKey: key => {
+    const parts = key.split(',')
+    return { x: parseInt(parts[0]), y: parseInt(parts[1]) }
+  },
+  neighbors: c => [
+    { x: c.x - 1, y: c.y },
+    { x: c.x + 1, y: c.y },
+    { x: c.x, y: c.y - 1 },
+    { x: c.x, y: c.y + 1 }
+  ],
+  centroid: c => ({ x: c.x, y: c.y }),
+  polygon: c => [
+    { x: c.x - 0.5, y: c.y - 0.5 },
+    { x: c.x - 0.5, y: c.y + 0.5 },
+    { x: c.x + 0.5, y: c.y + 0.5 },
+    { x: c.x + 0.5, y: c.y - 0.5 }
+  ],
+  cellAt: p => {
+    const c = { x: Math.round(p.x), y: Math.round(p.y) }
+    return near(c, p) ? c : null
+  },
+  rotationCenter: { x: 0, y: 0 },
+  rotationOrder: 4,
+  cellsInRect: (min, max) => {
+    const cells: CellCoord[] = []
+    for (let y = Math.floor(min.y); y <= Math.ceil(max.y); y++) {
+      for (let x = Math.floor(min.x); x <= Math.ceil(max.x); x++) {
+        cells.push({ x, y })
+      }
+    }
+    return cells
+  }
+}
+
+// 六角格子 (尖頂): 軸座標 (x, y) のセルの中心が (x + y/2, y·√3/2)。隣接セルの中心間距離は 1
+const hexagonLattice: Lattice = {
+  id: 'hexagon',
+  label: '六角格子',
+  key: c => `${c.x},${c.y}`,
+  parseKey: squareLattice.parseKey,
+  neighbors: c => [
+    { x: c.x - 1, y: c.y },
+    { x: c.x + 1, y: c.y },
+    { x: c.x, y: c.y - 1 },
+    { x: c.x + 1, y: c.y - 1 },
+    { x: c.x - 1, y: c.y + 1 },
+    { x: c.x, y: c.y + 1 }
+  ],
+  centroid: c => ({ x: c.x + c.y / 2, y: c.y * H }),
+  polygon: c => {
+    const center = hexagonLattice.centroid(c)
+    const radius = 1 / Math.sqrt(3)
+    return Array.from({ length: 6 }, (_, i) => {
+      const angle = Math.PI / 6 + i * Math.PI / 3
+      return { x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) }
+    })
+  },
+  cellAt: p => {
+    const y = Math.round(p.y / H)
+    const c = { x: Math.round(p.x - y / 2), y }
+    return near(hexagonLattice.centroid(c), p) ? c : null
+  },
+  rotationCenter: { x: 0, y: 0 },
+  rotationOrder: 6,
+  cellsInRect: (min, max) => {
+    const cells: CellCoord[] = []
+    for (let y = Math.floor(min.y / H) - 1; y <= Math.ceil(max.y / H) + 1; y++) {
+      for (let x = Math.floor(min.x - y / 2) - 1; x <= Math.ceil(max.x - y / 2) + 1; x++) {
+        cells.push({ x, y })
+      }
+    }
+    return cells
+  }
+}
+
+export const LATTICES: Record<LatticeId, Lattice> = {
+  triangle: triangleLattice,
+  square: squareLattice,
+  hexagon: hexagonLattice,
+}
+
+export const DEFAULT_LATTICE: LatticeId = 'triangle'
+
+export function getLattice(id: LatticeId): Lattice {
+  return LATTICES[id]
+}
+
+export interface ColoredCell {
+  coord: CellCoord
+  color: ColorName
+}
+
+// JSON 出力の形式 (格子と色体系つき)。読み込みは旧形式 (三角格子の ColoredCell[]) も受け付ける
+export interface ColoringDocument {
+  lattice: LatticeId
+  colorSystem: ColorSystem
+  cells: ColoredCell[]
+}
+
+// 色ごとの連結成分数 (添字 = 色 - 1)
+export type ConnectedCounts = number[]
+
+// 塗り分けを JSON 出力用の配列へ (上の行から、左から順)
+export function coloringToJSON(colors: Map<string, Color>, lattice: Lattice): ColoredCell[] {
+  const result: { cell: ColoredCell; center: Point }[] = []
+  colors.forEach((color, key) => {
+    if (color !== 0) {
+      const coord = lattice.parseKey(key)
+      result.push({ cell: { coord, color: COLOR_NAMES[color] }, center: lattice.centroid(coord) })
+    }
+  })
+  result.sort((a, b) => {
+    if (a.cell.coord.y !== b.cell.coord.y) return b.cell.coord.y - a.cell.coord.y
+    return a.center.x - b.center.x
+  })
+  return result.map(r => r.cell)
+}
+
+// JSON の配列から塗り分けへ (透過・不明な色・色数を超える色は無視)
+export function coloringFromJSON(data: ColoredCell[], k: number, lattice: Lattice): Map<string, Color> {
+  const newColors = new Map<string, Color>()
+  data.forEach(item => {
+    const key = lattice.key(item.coord)
+    const colorIndex = colorIndexByName(item.color)
+    if (colorIndex > 0 && colorIndex <= k) {
+      newColors.set(key, colorIndex)
+    }
+  })
+  return newColors
+}
+
+// JSON 文書を読み込む (旧形式の配列なら三角格子・3 色の既定の色体系)
+export function parseColoringDocument(data: unknown): ColoringDocument {
+  if (Array.isArray(data)) {
+    return { lattice: DEFAULT_LATTICE, colorSystem: DEFAULT_COLOR_SYSTEM, cells: data as ColoredCell[] }
+  }
+  const doc = data as Partial<ColoringDocument> | null
+  if (!doc || !Array.isArray(doc.cells)) {
+    throw new Error('cells is missing')
+  }
+  if (typeof doc.lattice !== 'string' || !(doc.lattice in LATTICES)) {
+    throw new Error(`unknown lattice: ${doc.lattice}`)
+  }
+  return { lattice: doc.lattice, colorSystem: normalizeColorSystem(doc.colorSystem), cells: doc.cells }
+}
+
+// startKey と同じ色で辺を介してつながるセルのキー (within 指定時はその中だけを辿る)
+export function connectedRegion(
+  colorMap: Map<string, Color>,
+  startKey: string,
+  lattice: Lattice,
+  within?: Set<string>
+): string[] {
+  const targetColor = colorMap.get(startKey) ?? 0
+  const visited = new Set<string>([startKey])
+  const stack = [startKey]
+  while (stack.length > 0) {
+    const key = stack.pop()!
+    for (const n of lattice.neighbors(lattice.parseKey(key))) {
+      const nKey = lattice.key(n)
+      if (visited.has(nKey) || (colorMap.get(nKey) ?? 0) !== targetColor) continue
+      if (within && !within.has(nKey)) continue
+      visited.add(nKey)
+      stack.push(nKey)
+    }
+  }
+  return [...visited]
+}
+
+// 連結成分数を計算（各色ごと）
+export function computeConnectedComponents(colorMap: Map<string, Color>, k: number, lattice: Lattice): ConnectedCounts {
+  const visited = new Set<string>()
+  const result = new Array<number>(k).fill(0)
+
+  for (const [key, color] of colorMap) {
+    if (color === 0 || visited.has(key)) continue
+    connectedRegion(colorMap, key, lattice).forEach(member => visited.add(member))
+    if (color <= k) result[color - 1]++
+  }
+
+  return result
+}
+
+// 輪郭内の隣接リスト (neighbors[i] = i 番目のセルに隣接するセルの番号、昇順)
+export function buildNeighborIndex(shape: CellCoord[], lattice: Lattice): number[][] {
+  const indexOf = new Map<string, number>()
+  shape.forEach((c, i) => indexOf.set(lattice.key(c), i))
+  return shape.map(c => {
+    const result: number[] = []
+    for (const n of lattice.neighbors(c)) {
+      const j = indexOf.get(lattice.key(n))
+      if (j !== undefined) result.push(j)
+    }
+    return result.sort((a, b) => a - b)
+  })
+}
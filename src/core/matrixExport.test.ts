@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import { formatMatrices, type MatrixExport } from './matrixExport.ts'
+
+// 2 頂点のパス (小行列式に int64 を超える値を混ぜて桁落ちしないことを見る)
+const path: MatrixExport = {
+  name: '#1 (w=2)',
+  matrix: [[1, -1], [-1, 1]],
+  labels: ['0,0,u', 'a"b'],
+  minors: [{ i: 0, det: 1n }, { i: 1, det: 2n ** 70n }],
+}
+const single: MatrixExport = { name: 'single', matrix: [[0]], labels: ['0,0'], minors: [] }
+
+describe('formatMatrices', () => {
+  it('writes CSV with quoted labels and a minor table', () => {
+    expect(formatMatrices([path], 'csv')).toBe(
+      [
+        '"","0,0,u","a""b"',
+        '"0,0,u",1,-1',
+        '"a""b",-1,1',
+        '',
+        '"i","vertex","det(L[i,i])"',
+        '0,"0,0,u",1',
+        `1,"a""b",${2n ** 70n}`,
+      ].join('\n') + '\n'
+    )
+    expect(formatMatrices([single], 'csv')).toBe('"","0,0"\n"0,0",0\n')
+  })
+
+  it('writes CAS assignments with exact minors', () => {
+    const big = (2n ** 70n).toString()
+    expect(formatMatrices([path], 'sage')).toBe(
+      `L = matrix(ZZ, [[1, -1],\n    [-1, 1]])\nlabels = ["0,0,u", "a\\"b"]\nminors = [1, ${big}]\n`
+    )
+    expect(formatMatrices([path], 'mathematica')).toContain(`L = {{1, -1},\n    {-1, 1}};\n`)
+    expect(formatMatrices([path], 'mathematica')).toContain(`minors = {1, ${big}};`)
+    const numpy = formatMatrices([path], 'numpy')
+    expect(numpy.startsWith('import numpy as np\n\nL = np.array([[1, -1],')).toBe(true)
+    expect(numpy).toContain(`minors = [1, ${big}]`)
+  })
+
+  it('writes LaTeX matrices and widens pmatrix when needed', () => {
+    const latex = formatMatrices([path], 'latex')
+    expect(latex).toContain('% v_{1} = a"b')
+    expect(latex).toContain('L = \\begin{pmatrix}\n  1 & -1 \\\\\n  -1 & 1\n\\end{pmatrix}')
+    expect(latex).toContain('\\bigl(\\det L[i,i]\\bigr)_{i=0}^{1} = (1, ')
+    expect(latex).not.toContain('MaxMatrixCols')
+
+    const n = 11
+    const wide: MatrixExport = {
+      name: 'wide',
+      matrix: Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))),
+      labels: Array.from({ length: n }, (_, i) => `${i}`),
+      minors: [],
+    }
+    expect(formatMatrices([wide], 'latex')).toContain('\\setcounter{MaxMatrixCols}{11}')
+  })
+
+  it('separates batches by name and suffixes variables', () => {
+    const items = [path, single]
+    const sage = formatMatrices(items, 'sage')
+    expect(sage).toContain('# #1 (w=2)\nL_1w2 = matrix')
+    expect(sage).toContain('\n\n# single\nL_single = matrix(ZZ, [[0]])')
+    expect(sage).toContain('minors_single = []')
+    expect(formatMatrices(items, 'mathematica')).toContain('(* single *)\nLsingle = {{0}};')
+    expect(formatMatrices(items, 'latex')).toContain('L_{1w2} = \\begin{pmatrix}')
+    expect(formatMatrices(items, 'csv')).toContain('\n\n# single\n"","0,0"\n')
+    // 名前に使える文字が無ければ接尾辞を付けない
+    expect(formatMatrices([{ ...single, name: '#' }, single], 'numpy')).toContain('# #\nL = np.array')
+  })
+})
@@ -0,0 +1,139 @@
+// ラプラシアン行列・頂点ラベル・小行列式のテキスト出力 (CSV と各種 CAS 向け)
+import type { MinorDet } from './search.ts'
+
+export type MatrixFormat = 'csv' | 'sage' | 'mathematica' | 'numpy' | 'latex'
+
+export const MATRIX_FORMAT_LABELS: Record<MatrixFormat, string> = {
+  csv: 'CSV',
+  sage: 'SageMath',
+  mathematica: 'Mathematica',
+  numpy: 'NumPy',
+  latex: 'LaTeX',
+}
+
+export const MATRIX_FORMAT_EXTENSIONS: Record<MatrixFormat, string> = {
+  csv: 'csv',
+  sage: 'sage',
+  mathematica: 'wl',
+  numpy: 'py',
+  latex: 'tex',
+}
+
+export interface MatrixExport {
+  // 出力中の名前 (一括出力では変数名の接尾辞にも使う)
+  name: string
+  matrix: number[][]
+  labels: string[]
+  // det(L[i,i]) (頂点が 1 個以下なら空)
+  minors: MinorDet[]
+}
+
+const quote = (s: string) => `"${s.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+const csvQuote = (s: string) => `"${s.replace(/"/g, '""')}"`
+const minorValues = (data: MatrixExport) => data.minors.map(m => m.det.toString())
+
+// 変数名に使えない文字を落とした接尾辞 (一括出力用)
+function identifierSuffix(name: string, separator: string): string {
+  const suffix = name.replace(/[^0-9A-Za-z]/g, '')
+  return suffix ? `${separator}${suffix}` : ''
+}
+
+function toCsv(data: MatrixExport): string[] {
+  const lines = [
+    ['', ...data.labels].map(csvQuote).join(','),
+    ...data.matrix.map((row, i) => [csvQuote(data.labels[i]), ...row].join(',')),
+  ]
+  if (data.minors.length > 0) {
+    lines.push('', ['i', 'vertex', 'det(L[i,i])'].map(csvQuote).join(','))
+    for (const { i, det } of data.minors) lines.push([i, csvQuote(data.labels[i]), det].join(','))
+  }
+  return lines
+}
+
+function toSage(data: MatrixExport, suffix: string): string[] {
+  return [
+    `L${suffix} = matrix(ZZ, [${data.matrix.map(row => `[${row.join(', ')}]`).join(',\n    ')}])`,
+    `labels${suffix} = [${data.labels.map(quote).join(', ')}]`,
+    `minors${suffix} = [${minorValues(data).join(', ')}]`,
+  ]
+}
+
+function toMathematica(data: MatrixExport, suffix: string): string[] {
+  return [
+    `L${suffix} = {${data.matrix.map(row => `{${row.join(', ')}}`).join(',\n    ')}};`,
+    `labels${suffix} = {${data.labels.map(quote).join(', ')}};`,
+    `minors${suffix} = {${minorValues(data).join(', ')}};`,
+  ]
+}
+
+function toNumpy(data: MatrixExport, suffix: string): string[] {
+  return [
+    `L${suffix} = np.array([${data.matrix.map(row => `[${row.join(', ')}]`).join(',\n    ')}], dtype=np.int64)`,
+    `labels${suffix} = [${data.labels.map(quote).join(', ')}]`,
+    // 小行列式は int64 に収まらないことがあるので Python の int のまま
+    `minors${suffix} = [${minorValues(data).join(', ')}]`,
+  ]
+}
+
+function toLatex(data: MatrixExport, suffix: string): string[] {
+  const name = suffix ? `L_{${suffix}}` : 'L'
+  const n = data.matrix.length
+  const lines = data.labels.map((label, i) => `% v_{${i}} = ${label}`)
+  // pmatrix は既定で 10 列まで
+  if (n > 10) lines.push(`\\setcounter{MaxMatrixCols}{${n}}`)
+  lines.push(
+    '\\[',
+    `${name} = \\begin{pmatrix}`,
+    ...data.matrix.map((row, i) => `  ${row.join(' & ')}${i < n - 1 ? ' \\\\' : ''}`),
+    '\\end{pmatrix}',
+    '\\]'
+  )
+  if (data.minors.length > 0) {
+    lines.push(
+      '\\[',
+      `\\bigl(\\det ${name}[i,i]\\bigr)_{i=0}^{${n - 1}} = (${minorValues(data).join(', ')})`,
+      '\\]'
+    )
+  }
+  return lines
+}
+
+function formatBlock(data: MatrixExport, format: MatrixFormat, batch: boolean): string[] {
+  switch (format) {
+    case 'csv':
+      return toCsv(data)
+    case 'sage':
+      return toSage(data, batch ? identifierSuffix(data.name, '_') : '')
+    case 'mathematica':
+      return toMathematica(data, batch ? identifierSuffix(data.name, '') : '')
+    case 'numpy':
+      return toNumpy(data, batch ? identifierSuffix(data.name, '_') : '')
+    case 'latex':
+      return toLatex(data, batch ? identifierSuffix(data.name, '') : '')
+  }
+}
+
+// 各形式のコメント記法 (CSV には無いので見出し行として扱う)
+function commentLine(format: MatrixFormat, text: string): string {
+  switch (format) {
+    case 'mathematica':
+      return `(* ${text} *)`
+    case 'latex':
+      return `% ${text}`
+    default:
+      return `# ${text}`
+  }
+}
+
+// 1 個または複数の行列をまとめて出力する (複数なら名前ごとに区切り、変数名に接尾辞を付ける)
+export function formatMatrices(items: MatrixExport[], format: MatrixFormat): string {
+  const batch = items.length > 1
+  const lines: string[] = []
+  if (format === 'numpy') lines.push('import numpy as np', '')
+  items.forEach((data, index) => {
+    if (index > 0) lines.push('')
+    if (batch) lines.push(commentLine(format, data.name))
+    lines.push(...formatBlock(data, format, batch))
+  })
+  return lines.join('\n') + '\n'
+}
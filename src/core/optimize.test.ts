@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_COLOR_SYSTEM } from './colors.ts'
+import { parseCriteria } from './criteria.ts'
+import { determinant } from './determinant.ts'
+import { createSearchContext, type SearchHooks } from './engine.ts'
+import { buildLaplacian } from './exhaustive.ts'
+import { generateShape } from './generators.ts'
+import { getLattice } from './lattice.ts'
+import { createOptimizer, type OptimizerKind } from './optimize.ts'
+import { computeMinorDets, type SearchResult } from './search.ts'
+
+const lattice = getLattice('triangle')
+const shape = generateShape(lattice, 'trapezoid', { a: 4, h: 1 }, { i: 0, j: 0 })
+const ctx = createSearchContext(lattice, shape, DEFAULT_COLOR_SYSTEM, null, parseCriteria('minors != 0'))
+const { k } = ctx
+const n = shape.length
+const kinds: OptimizerKind[] = ['hill', 'anneal', 'tabu']
+
+// 全ての塗り分けでの log10|det(L[0,0])| の最大値
+const maxLogDet = (() => {
+  let best = 0n
+  for (let index = 0; index < k ** n; index++) {
+    const digits = Array.from({ length: n }, (_, i) => Math.floor(index / k ** i) % k)
+    const det = determinant(buildLaplacian(digits, ctx).slice(1).map(row => row.slice(1)))
+    if ((det < 0n ? -det : det) > best) best = det < 0n ? -det : det
+  }
+  return Math.log10(Number(best))
+})()
+
+const collect = () => {
+  const results: SearchResult[] = []
+  let evaluated = 0
+  const hooks: SearchHooks = {
+    onResult: r => results.push(r),
+    onProgress: (_processed, _pruned, count) => { evaluated += count }
+  }
+  return { results, hooks, evaluated: () => evaluated }
+}
+
+describe('createOptimizer', () => {
+  for (const kind of kinds) {
+    it(`${kind} reaches the largest determinant of a small shape`, () => {
+      const { hooks } = collect()
+      const optimizer = createOptimizer(ctx, kind, 'maxDet', 1, 0, hooks)
+      let best = optimizer.best()
+      for (let round = 0; round < 40 && optimizer.best() < maxLogDet - 1e-9; round++) {
+        optimizer.run(100)
+        // 最良値は悪化しない
+        expect(optimizer.best()).toBeGreaterThanOrEqual(best)
+        best = optimizer.best()
+      }
+      expect(optimizer.best()).toBeCloseTo(maxLogDet, 9)
+    })
+  }
+
+  it('reports each matching coloring once with exact minors', () => {
+    const { results, hooks, evaluated } = collect()
+    createOptimizer(ctx, 'anneal', 'nonzeroMinors', 3, 0, hooks).run(500)
+    expect(evaluated()).toBeGreaterThan(0)
+    expect(results.length).toBeGreaterThan(0)
+    const ids = new Set(results.map(r => [...r.colors.values()].join('')))
+    expect(ids.size).toBe(results.length)
+    for (const r of results) {
+      expect(r.seed).toBe(3)
+      expect(r.dets).toEqual(computeMinorDets(r.colors, DEFAULT_COLOR_SYSTEM, lattice))
+      expect(r.dets.every(d => d.det !== 0n)).toBe(true)
+    }
+  })
+
+  it('repeats the same walk for the same seed and stream', () => {
+    const run = (stream: number) => {
+      const { results, hooks } = collect()
+      const optimizer = createOptimizer(ctx, 'tabu', 'components', 7, stream, hooks)
+      optimizer.run(300)
+      return { current: optimizer.current(), best: optimizer.best(), attempts: results.map(r => r.attempt) }
+    }
+    expect(run(0)).toEqual(run(0))
+    expect(run(1).attempts).not.toEqual(run(0).attempts)
+  })
+})
@@ -0,0 +1,209 @@
+// 局所探索 (山登り・焼きなまし・タブー探索): 全探索できない大きな輪郭向け
+// 1 つのセルの色を変える移動を繰り返して目的関数を改善し、途中で訪れた塗り分けのうち条件を満たすものを結果にする
+import { determinant, principalMinors, principalMinorsFromKernel } from './determinant.ts'
+import { evaluateCandidate, type SearchContext, type SearchHooks } from './engine.ts'
+import { buildLaplacian, digitsToIndex } from './exhaustive.ts'
+import { computeConnectedComponents, type ConnectedCounts } from './lattice.ts'
+import { attemptRandom } from './random.ts'
+import { digitsToColors } from './search.ts'
+import { criticalGroup } from './smith.ts'
+
+export type OptimizerKind = 'hill' | 'anneal' | 'tabu'
+
+export const OPTIMIZER_LABELS: Record<OptimizerKind, string> = {
+  hill: '山登り',
+  anneal: '焼きなまし',
+  tabu: 'タブー探索',
+}
+
+export type Objective = 'components' | 'maxDet' | 'minDet' | 'nonzeroMinors'
+
+// 値の意味: 連結成分数の合計, log10|det(L[0,0])|, 非零の主小行列式の数
+export const OBJECTIVES: Record<Objective, { label: string; maximize: boolean }> = {
+  components: { label: '連結成分数 (最小化)', maximize: false },
+  maxDet: { label: 'log|det| (最大化)', maximize: true },
+  minDet: { label: 'log|det| (0 以外で最小化)', maximize: false },
+  nonzeroMinors: { label: '非零の小行列式数 (最大化)', maximize: true },
+}
+
+// 焼きなましの 1 周期の長さ (セル数あたりの移動回数) と温度。周期が終わると温度を戻す
+const ANNEAL_STEPS_PER_CELL = 200
+const ANNEAL_START_TEMPERATURE = 1
+const ANNEAL_END_TEMPERATURE = 0.01
+// 山登りは改善しない移動が (セル数 × (色数 - 1)) × この回数続いたら初期化し直す
+const HILL_PATIENCE = 2
+// タブー探索で 1 歩ごとに調べる近傍の数
+const TABU_SAMPLE = 24
+
+export interface Optimizer {
+  // 移動を steps 回 (タブー探索では近傍の評価を含めて steps 回程度) 行う
+  run(steps: number): void
+  // 目的関数の現在値と最良値 (OBJECTIVES の値の意味で)
+  current(): number
+  best(): number
+}
+
+interface Evaluation {
+  value: number
+  // 大きいほど良い (最小化する目的関数は符号を反転)
+  score: number
+  matrix: number[][]
+  kernelMinors: bigint[] | null
+}
+
+// |v| の常用対数 (BigInt のまま桁数から求める)
+function log10Abs(v: bigint): number {
+  const digits = (v < 0n ? -v : v).toString()
+  return digits.length - 1 + Math.log10(Number(`0.${digits.slice(0, 15)}`) * 10)
+}
+
+export function createOptimizer(
+  ctx: SearchContext,
+  kind: OptimizerKind,
+  objective: Objective,
+  seed: number,
+  // 同じシードで並列に動かすときの系列番号 (乱数列はシードと系列番号で決まる)
+  stream: number,
+  hooks: SearchHooks
+): Optimizer {
+  const { lattice, shape, k, criteria } = ctx
+  const random = attemptRandom(seed, stream)
+  const n = shape.length
+  const { maximize } = OBJECTIVES[objective]
+  // 条件を満たして報告済みの塗り分け (桁の並び)
+  const reported = new Set<string>()
+  // これまでに評価した中で最良の値
+  let bestScore = -Infinity
+  let bestValue = NaN
+
+  const randomDigits = () => shape.map(() => Math.floor(random() * k))
+
+  const evaluate = (digits: number[]): Evaluation => {
+    const matrix = buildLaplacian(digits, ctx)
+    const minors = principalMinorsFromKernel(matrix)
+    const kernelMinors = minors && minors.length === n ? minors : null
+    let value: number
+    switch (objective) {
+      case 'components': {
+        const connected = computeConnectedComponents(digitsToColors(digits, shape, lattice), k, lattice)
+        value = connected.reduce((sum, c) => sum + c, 0)
+        break
+      }
+      case 'maxDet':
+      case 'minDet': {
+        const det = kernelMinors ? kernelMinors[0] : determinant(matrix.slice(1).map(row => row.slice(1)))
+        // 0 は最大化ではどの非零より悪く、最小化では対象外として最悪にする
+        value = det !== 0n ? log10Abs(det) : objective === 'maxDet' ? -1 : Infinity
+        break
+      }
+      case 'nonzeroMinors':
+        value = kernelMinors ? n : principalMinors(matrix).filter(d => d !== 0n).length
+        break
+    }
+    const evaluation = { value, score: maximize ? value : -value, matrix, kernelMinors }
+    if (evaluation.score > bestScore) {
+      bestScore = evaluation.score
+      bestValue = evaluation.value
+    }
+    report(digits, evaluation)
+    return evaluation
+  }
+
+  // 評価した塗り分けが条件を満たせば結果として報告する
+  const report = (digits: number[], evaluation: Evaluation) => {
+    hooks.onProgress(1, 0, 1)
+    const id = digits.join(',')
+    if (reported.has(id)) return
+    const colors = digitsToColors(digits, shape, lattice)
+    let connected: ConnectedCounts | null = null
+    const getConnected = () => (connected ??= computeConnectedComponents(colors, k, lattice))
+    const dets = evaluateCandidate(criteria, evaluation.matrix, getConnected, () => evaluation.kernelMinors)
+    if (!dets) return
+    reported.add(id)
+    hooks.onResult({
+      colors,
+      dets,
+      attempt: digitsToIndex(digits, k) + 1n,
+      connected: getConnected(),
+      orbitSize: 1,
+      invariants: criticalGroup(evaluation.matrix),
+      criteria: criteria.source,
+      seed
+    })
+  }
+
+  let digits = randomDigits()
+  let current = evaluate(digits)
+  let step = 0
+  let stale = 0
+  const tabuUntil = new Array<number>(n).fill(0)
+  const tenure = Math.max(3, Math.floor(n / 4))
+
+  // v を色 digit にしたときの評価 (digits は元に戻す)
+  const tryMove = (v: number, digit: number): Evaluation => {
+    const old = digits[v]
+    digits[v] = digit
+    const evaluation = evaluate(digits)
+    digits[v] = old
+    return evaluation
+  }
+
+  const randomMove = (): [number, number] => {
+    const v = Math.floor(random() * n)
+    return [v, (digits[v] + 1 + Math.floor(random() * (k - 1))) % k]
+  }
+
+  const accept = (v: number, digit: number, evaluation: Evaluation) => {
+    digits[v] = digit
+    current = evaluation
+  }
+
+  const moveOnce = () => {
+    step++
+    if (kind === 'tabu') {
+      // 近傍の一部から最も良い非タブーの移動を選ぶ (最良値を更新する移動はタブーでも許す)
+      // evaluate が bestScore を更新するので、比べるのは近傍を調べる前の最良値
+      const aspiration = bestScore
+      let chosen: [number, number, Evaluation] | null = null
+      for (let i = 0; i < TABU_SAMPLE; i++) {
+        const [v, digit] = randomMove()
+        const evaluation = tryMove(v, digit)
+        if (tabuUntil[v] > step && !(evaluation.score > aspiration)) continue
+        if (!chosen || evaluation.score > chosen[2].score) chosen = [v, digit, evaluation]
+      }
+      if (chosen) {
+        accept(...chosen)
+        tabuUntil[chosen[0]] = step + tenure
+      }
+      return
+    }
+
+    const [v, digit] = randomMove()
+    const evaluation = tryMove(v, digit)
+    // どちらも -Infinity (行列式 0 同士など) の差は NaN になるので、悪化していなければ移動する
+    const delta = evaluation.score - current.score
+    if (kind === 'hill') {
+      stale = delta > 0 ? 0 : stale + 1
+      if (!(delta < 0)) accept(v, digit, evaluation)
+      if (stale > HILL_PATIENCE * n * (k - 1)) {
+        digits = randomDigits()
+        current = evaluate(digits)
+        stale = 0
+      }
+    } else {
+      const cycle = ANNEAL_STEPS_PER_CELL * n
+      const t = (step % cycle) / cycle
+      const temperature = ANNEAL_START_TEMPERATURE * Math.pow(ANNEAL_END_TEMPERATURE / ANNEAL_START_TEMPERATURE, t)
+      if (!(delta < 0) || random() < Math.exp(delta / temperature)) accept(v, digit, evaluation)
+    }
+  }
+
+  return {
+    run: steps => {
+      const moves = kind === 'tabu' ? Math.max(1, Math.floor(steps / TABU_SAMPLE)) : steps
+      for (let i = 0; i < moves && !hooks.shouldStop?.(); i++) moveOnce()
+    },
+    current: () => current.value,
+    best: () => bestValue
+  }
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_COLOR_SYSTEM, weightTable } from './colors.ts'
+import { getLattice } from './lattice.ts'
+import { buildGraphOverlay } from './overlay.ts'
+
+const square = getLattice('square')
+const weights = weightTable(DEFAULT_COLOR_SYSTEM)
+
+describe('buildGraphOverlay', () => {
+  // 白 2 マスの横に黒 1 マスと透過 1 マス、離れて灰 1 マス
+  const colors = new Map([['0,0', 1], ['1,0', 1], ['2,0', 2], ['3,0', 0], ['5,5', 3]])
+  const overlay = buildGraphOverlay(colors, DEFAULT_COLOR_SYSTEM, square)
+
+  it('numbers the vertices like the Laplacian and places them at centroids', () => {
+    expect(overlay.vertices.map(v => v.key)).toEqual(['0,0', '1,0', '2,0', '5,5'])
+    expect(overlay.vertices.map(v => v.index)).toEqual([0, 1, 2, 3])
+    expect(overlay.vertices[2].center).toEqual(square.centroid({ x: 2, y: 0 }))
+  })
+
+  it('lists each adjacent pair once with weights in both directions', () => {
+    expect(overlay.edges).toEqual([
+      { from: 0, to: 1, weight: weights[0][0], reverseWeight: weights[0][0] },
+      { from: 1, to: 2, weight: weights[0][1], reverseWeight: weights[1][0] },
+    ])
+  })
+
+  it('outlines each connected component along its boundary', () => {
+    expect(overlay.components.map(c => c.color)).toEqual([1, 2, 3])
+    expect(overlay.components.map(c => c.outline.length)).toEqual([6, 4, 4])
+    // 白の 2 マスが共有する辺は輪郭に含まれない
+    const inner = overlay.components[0].outline.filter(([a, b]) => a.x === 0.5 && b.x === 0.5)
+    expect(inner).toEqual([])
+  })
+
+  it('ignores colors beyond the color system', () => {
+    const twoColors = { ...DEFAULT_COLOR_SYSTEM, k: 2, table: [] }
+    const small = buildGraphOverlay(colors, twoColors, square)
+    expect(small.vertices.map(v => v.key)).toEqual(['0,0', '1,0', '2,0'])
+    expect(small.components).toHaveLength(2)
+  })
+})
@@ -0,0 +1,79 @@
+// キャンバスに重ねるグラフ表示: 頂点番号・重みつきの辺・連結成分の輪郭
+import type { Color, ColorSystem } from './colors.ts'
+import { connectedRegion, type Lattice, type Point } from './lattice.ts'
+import { buildColoredLaplacian } from './search.ts'
+
+export interface OverlayVertex {
+  // ラプラシアンの行番号
+  index: number
+  key: string
+  center: Point
+}
+
+export interface OverlayEdge {
+  from: number
+  to: number
+  // from → to と to → from の重み (ラプラシアンの非対角成分の符号を反転したもの)
+  weight: number
+  reverseWeight: number
+}
+
+export interface OverlayComponent {
+  color: Color
+  // 成分の境界になる辺 (セルの多角形の辺のうち、同じ成分のセルと共有しないもの)
+  outline: [Point, Point][]
+}
+
+export interface GraphOverlay {
+  vertices: OverlayVertex[]
+  edges: OverlayEdge[]
+  components: OverlayComponent[]
+}
+
+const pointKey = (p: Point) => `${Math.round(p.x * 1e6)},${Math.round(p.y * 1e6)}`
+
+function componentOutline(keys: string[], lattice: Lattice): [Point, Point][] {
+  // 両側のセルが成分に含まれる辺は 2 回現れるので、1 回だけの辺が境界
+  const segments = new Map<string, { segment: [Point, Point]; count: number }>()
+  for (const key of keys) {
+    const polygon = lattice.polygon(lattice.parseKey(key))
+    polygon.forEach((a, i) => {
+      const b = polygon[(i + 1) % polygon.length]
+      const [ka, kb] = [pointKey(a), pointKey(b)]
+      const id = ka < kb ? `${ka}|${kb}` : `${kb}|${ka}`
+      const entry = segments.get(id)
+      if (entry) entry.count++
+      else segments.set(id, { segment: [a, b], count: 1 })
+    })
+  }
+  return [...segments.values()].filter(s => s.count === 1).map(s => s.segment)
+}
+
+export function buildGraphOverlay(colors: Map<string, Color>, system: ColorSystem, lattice: Lattice): GraphOverlay {
+  const { matrix, vertices } = buildColoredLaplacian(colors, system, lattice)
+  const indexOf = new Map(vertices.map((v, i) => [v.key, i]))
+
+  const edges: OverlayEdge[] = []
+  vertices.forEach((v, i) => {
+    for (const neighbor of lattice.neighbors(v.coord)) {
+      const j = indexOf.get(lattice.key(neighbor))
+      if (j === undefined || j <= i) continue
+      edges.push({ from: i, to: j, weight: -matrix[i][j], reverseWeight: -matrix[j][i] })
+    }
+  })
+
+  const components: OverlayComponent[] = []
+  const visited = new Set<string>()
+  for (const v of vertices) {
+    if (visited.has(v.key)) continue
+    const keys = connectedRegion(colors, v.key, lattice)
+    keys.forEach(key => visited.add(key))
+    components.push({ color: v.color, outline: componentOutline(keys, lattice) })
+  }
+
+  return {
+    vertices: vertices.map((v, index) => ({ index, key: v.key, center: lattice.centroid(v.coord) })),
+    edges,
+    components
+  }
+}
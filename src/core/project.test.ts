@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_COLOR_SYSTEM } from './colors.ts'
+import { createSearchContext, searchChunk } from './engine.ts'
+import { planExhaustive } from './exhaustive.ts'
+import { getLattice } from './lattice.ts'
+import {
+  DEFAULT_PROJECT_SETTINGS,
+  LIBRARY_VERSION,
+  libraryToJSON,
+  normalizeProject,
+  parseLibraryFile,
+  projectResultCount,
+  projectResults,
+  shapeFromStored,
+  shapeToStored,
+  type ProjectRecord,
+} from './project.ts'
+import { appendResults, createResultList, packResults, resultDet, resultListToStored } from './resultStore.ts'
+import type { SearchResult } from './search.ts'
+
+const lattice = getLattice('triangle')
+const shape = [{ x: 0, y: 0, isUp: true }, { x: 1, y: 0, isUp: false }, { x: 2, y: 0, isUp: true }]
+const keys = shape.map(lattice.key)
+
+// 3 セルの帯を全探索した結果
+const results: SearchResult[] = []
+const ctx = createSearchContext(lattice, shape, DEFAULT_COLOR_SYSTEM)
+const plan = planExhaustive(shape.length, ctx.k)
+for (let chunk = 0; chunk < plan.chunkCount; chunk++) {
+  searchChunk(ctx, plan.prefixDigits, chunk, { onResult: r => results.push(r), onProgress: () => {} })
+}
+const list = appendResults(
+  createResultList({ keys, system: DEFAULT_COLOR_SYSTEM, lattice: 'triangle', criteria: 'minors != 0', seed: 5 }),
+  packResults(results, keys, ctx.k)
+)
+
+const project: ProjectRecord = {
+  id: 'p1',
+  name: '帯',
+  updatedAt: 1,
+  lattice: 'triangle',
+  colorSystem: DEFAULT_COLOR_SYSTEM,
+  colors: [...results[0].colors],
+  shape: shapeToStored(shape, lattice),
+  settings: { ...DEFAULT_PROJECT_SETTINGS, seed: '5' },
+  results: resultListToStored(list)
+}
+
+// 書き出しファイルと同じく JSON を経由する
+const throughJSON = (value: unknown): unknown => JSON.parse(JSON.stringify(value))
+
+describe('library files', () => {
+  it('round-trips projects and their results', () => {
+    expect(results.length).toBeGreaterThan(0)
+    const [loaded] = parseLibraryFile(throughJSON(libraryToJSON([project])))
+    expect(loaded).toEqual(project)
+    expect(shapeFromStored(loaded.shape, lattice)).toEqual(shape)
+    expect(projectResultCount(loaded)).toBe(results.length)
+    const restored = projectResults(loaded)
+    expect(restored.columns.seed).toBe(5)
+    results.forEach((r, i) => expect(resultDet(restored, i)).toBe(r.dets[0].det))
+  })
+
+  it(`accepts only version ${LIBRARY_VERSION}`, () => {
+    const file = libraryToJSON([project])
+    expect(() => parseLibraryFile({ ...file, format: 'other' })).toThrow('not a library file')
+    expect(() => parseLibraryFile({ ...file, version: LIBRARY_VERSION - 1 })).toThrow('unsupported library version')
+    expect(() => parseLibraryFile({ ...file, version: LIBRARY_VERSION + 1 })).toThrow('unsupported library version')
+    expect(() => parseLibraryFile({ ...file, version: undefined })).toThrow('unsupported library version')
+  })
+})
+
+describe('normalizeProject', () => {
+  it('fills in settings and the update time', () => {
+    const stored = throughJSON(project) as Record<string, unknown>
+    const loaded = normalizeProject({ ...stored, updatedAt: undefined, settings: { seed: '9' } })
+    expect(loaded.settings).toEqual({ ...DEFAULT_PROJECT_SETTINGS, seed: '9' })
+    expect(loaded.updatedAt).toBeGreaterThan(1)
+  })
+
+  it('rejects incomplete projects and results', () => {
+    const stored = throughJSON(project) as Record<string, unknown>
+    expect(() => normalizeProject(null)).toThrow('not an object')
+    expect(() => normalizeProject({ ...stored, id: 1 })).toThrow('id or name')
+    expect(() => normalizeProject({ ...stored, lattice: 'pentagon' })).toThrow('unknown lattice')
+    expect(() => normalizeProject({ ...stored, shape: undefined })).toThrow('"帯" is incomplete')
+    // 1 件ずつの配列で保存した結果は読み込まない
+    expect(() => normalizeProject({ ...stored, results: [] })).toThrow('"帯": result keys are missing')
+    expect(() => normalizeProject({ ...stored, results: { ...project.results, dets: undefined } })).toThrow('"帯": result determinants')
+  })
+})
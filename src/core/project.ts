@@ -0,0 +1,110 @@
+// プロジェクト (輪郭・塗り分け・探索設定・結果一覧) の保存形式
+// IndexedDB とライブラリの書き出しファイルで同じ JSON 互換の形を使う。
+// 頂点番号 (ラプラシアンの行) は塗り分けの挿入順で決まるので、Map は並びを保ったまま [キー, 色] の配列にする
+import { normalizeColorSystem, type Color, type ColorSystem } from './colors.ts'
+import { DEFAULT_CRITERIA } from './criteria.ts'
+import { LATTICES, type CellCoord, type Lattice, type LatticeId } from './lattice.ts'
+import { normalizeStoredResultList, resultListFromStored, type ResultList, type StoredResultList } from './resultStore.ts'
+
+export const LIBRARY_FORMAT = 'potatriangle-library'
+// 2: 結果一覧を列ごとの形式 (StoredResultList) で保存する
+export const LIBRARY_VERSION = 2
+
+// 探索の設定 (値の検証は UI 側で行う)
+export interface ProjectSettings {
+  searchMode: string
+  useSymmetry: boolean
+  criteria: string
+  seed: string
+  objective: string
+}
+
+export const DEFAULT_PROJECT_SETTINGS: ProjectSettings = {
+  searchMode: 'exhaustive',
+  useSymmetry: false,
+  criteria: DEFAULT_CRITERIA,
+  seed: '',
+  objective: 'maxDet',
+}
+
+export interface ProjectRecord {
+  id: string
+  name: string
+  updatedAt: number
+  lattice: LatticeId
+  colorSystem: ColorSystem
+  colors: [string, Color][]
+  // 輪郭のセルのキー
+  shape: string[]
+  settings: ProjectSettings
+  results: StoredResultList
+}
+
+export interface LibraryFile {
+  format: typeof LIBRARY_FORMAT
+  version: number
+  projects: ProjectRecord[]
+}
+
+export function newProjectId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+export function projectResultCount(project: ProjectRecord): number {
+  return project.results.count
+}
+
+export function projectResults(project: ProjectRecord): ResultList {
+  return resultListFromStored(project.results)
+}
+
+export function shapeToStored(shape: CellCoord[], lattice: Lattice): string[] {
+  return shape.map(lattice.key)
+}
+
+export function shapeFromStored(keys: string[], lattice: Lattice): CellCoord[] {
+  return keys.map(lattice.parseKey)
+}
+
+// 外部から読み込んだプロジェクトを検証して整える (不正なら Error)
+export function normalizeProject(value: unknown): ProjectRecord {
+  const v = value as Partial<ProjectRecord> | null
+  if (!v || typeof v !== 'object') throw new Error('project is not an object')
+  if (typeof v.id !== 'string' || typeof v.name !== 'string') throw new Error('project id or name is missing')
+  if (typeof v.lattice !== 'string' || !(v.lattice in LATTICES)) throw new Error(`unknown lattice: ${v.lattice}`)
+  if (!Array.isArray(v.colors) || !Array.isArray(v.shape) || !v.results || typeof v.results !== 'object') {
+    throw new Error(`project "${v.name}" is incomplete`)
+  }
+  let results: ProjectRecord['results']
+  try {
+    results = normalizeStoredResultList(v.results)
+  } catch (e) {
+    throw new Error(`project "${v.name}": ${(e as Error).message}`)
+  }
+  return {
+    id: v.id,
+    name: v.name,
+    updatedAt: typeof v.updatedAt === 'number' ? v.updatedAt : Date.now(),
+    lattice: v.lattice,
+    colorSystem: normalizeColorSystem(v.colorSystem),
+    colors: v.colors,
+    shape: v.shape,
+    settings: { ...DEFAULT_PROJECT_SETTINGS, ...v.settings },
+    results
+  }
+}
+
+export function libraryToJSON(projects: ProjectRecord[]): LibraryFile {
+  return { format: LIBRARY_FORMAT, version: LIBRARY_VERSION, projects }
+}
+
+export function parseLibraryFile(data: unknown): ProjectRecord[] {
+  const file = data as Partial<LibraryFile> | null
+  if (!file || file.format !== LIBRARY_FORMAT || !Array.isArray(file.projects)) {
+    throw new Error('not a library file')
+  }
+  if (typeof file.version !== 'number' || file.version !== LIBRARY_VERSION) {
+    throw new Error(`unsupported library version: ${file.version}`)
+  }
+  return file.projects.map(normalizeProject)
+}
@@ -0,0 +1,29 @@
+// シード付き擬似乱数 (mulberry32)
+
+export type Random = () => number
+
+export function mulberry32(seed: number): Random {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// シードと試行番号から、その試行専用の乱数列を作る
+// 試行ごとに独立なので、ワーカー数や分担に関係なく同じ試行番号は同じ塗り分けになる
+export function attemptRandom(seed: number, attempt: number): Random {
+  let h = Math.imul((seed >>> 0) ^ 0x9e3779b9, 0x85ebca6b)
+  h = Math.imul(h ^ (attempt >>> 0), 0xc2b2ae35)
+  h ^= Math.imul(Math.floor(attempt / 4294967296), 0x27d4eb2f)
+  h ^= h >>> 16
+  return mulberry32(h)
+}
+
+// 新しいシードを Math.random から作る
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296)
+}
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_COLOR_SYSTEM } from './colors.ts'
+import { createSearchContext, searchChunk } from './engine.ts'
+import { planExhaustive } from './exhaustive.ts'
+import { generateShape } from './generators.ts'
+import { getLattice } from './lattice.ts'
+import {
+  EMPTY_FILTER,
+  NO_RANGE,
+  countColorings,
+  detHistogram,
+  groupResults,
+  isFilterActive,
+  resultsToCsv,
+  resultsToJSON,
+  selectResults,
+  type ResultFilter,
+} from './resultStats.ts'
+import { allResults, appendResults, createResultList, packResults } from './resultStore.ts'
+import type { SearchResult } from './search.ts'
+import { buildSymmetryGroup } from './symmetry.ts'
+
+const lattice = getLattice('triangle')
+const shape = generateShape(lattice, 'hexagon', { a: 2, b: 1, c: 1 }, { i: 0, j: 0 })
+const keys = shape.map(lattice.key)
+const k = DEFAULT_COLOR_SYSTEM.k
+
+// 10 セルの六角形を対称性で削減して全探索した結果
+const results: SearchResult[] = []
+const ctx = createSearchContext(lattice, shape, DEFAULT_COLOR_SYSTEM, buildSymmetryGroup(lattice, shape, k, true))
+const plan = planExhaustive(shape.length, k)
+for (let chunk = 0; chunk < plan.chunkCount; chunk++) {
+  searchChunk(ctx, plan.prefixDigits, chunk, { onResult: r => results.push(r), onProgress: () => {} })
+}
+const list = appendResults(
+  createResultList({ keys, system: DEFAULT_COLOR_SYSTEM, lattice: 'triangle', criteria: 'minors != 0', seed: null }),
+  packResults(results, keys, k)
+)
+const all = allResults(list)
+
+const det = (r: SearchResult) => r.dets[0].det
+const total = (r: SearchResult) => r.connected.reduce((sum, c) => sum + c, 0)
+// 条件を満たす結果の番号
+const where = (test: (r: SearchResult) => boolean) => results.flatMap((r, i) => (test(r) ? [i] : []))
+
+describe('selectResults', () => {
+  it('keeps everything without a filter', () => {
+    expect(isFilterActive(EMPTY_FILTER)).toBe(false)
+    expect(Array.from(selectResults(list, EMPTY_FILTER))).toEqual(results.map((_, i) => i))
+  })
+
+  it('combines determinant, component and group ranges', () => {
+    const dets = results.map(det).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+    const middle = dets[dets.length >> 1]
+    const filter: ResultFilter = {
+      det: { min: middle, max: null },
+      total: { min: null, max: 9 },
+      colors: [NO_RANGE, { min: 1, max: 3 }],
+      group: null
+    }
+    expect(isFilterActive(filter)).toBe(true)
+    const expected = where(r => det(r) >= middle && total(r) <= 9 && r.connected[1] >= 1 && r.connected[1] <= 3)
+    expect(expected.length).toBeGreaterThan(0)
+    expect(expected.length).toBeLessThan(results.length)
+    expect(Array.from(selectResults(list, filter))).toEqual(expected)
+    const group = list.columns.groupIds[0]
+    expect(Array.from(selectResults(list, { ...EMPTY_FILTER, group }))).toEqual(
+      where(r => r.invariants.join(',') === results[0].invariants.join(','))
+    )
+  })
+})
+
+describe('groupResults', () => {
+  it('groups by minor values with filters that select each group', () => {
+    const groups = groupResults(list, all, 'minor')
+    expect(groups.reduce((sum, g) => sum + g.count, 0)).toBe(results.length)
+    for (let i = 1; i < groups.length; i++) expect(groups[i].count).toBeLessThanOrEqual(groups[i - 1].count)
+    for (const group of groups) {
+      const selected = selectResults(list, { ...EMPTY_FILTER, ...group.filter })
+      expect(selected.length).toBe(group.count)
+      expect(group.label).toBe(det(results[selected[0]]).toString())
+    }
+  })
+
+  it('groups by any minor index', () => {
+    const index = shape.length - 1
+    const groups = groupResults(list, all, 'minor', index)
+    const expected = new Map<string, number>()
+    for (const r of results) {
+      const label = r.dets[index].det.toString()
+      expected.set(label, (expected.get(label) ?? 0) + 1)
+    }
+    expect(new Map(groups.map(g => [g.label, g.count]))).toEqual(expected)
+    expect(groups.every(g => g.filter === null)).toBe(true)
+  })
+
+  it('groups by component signatures', () => {
+    const groups = groupResults(list, all, 'signature')
+    for (const group of groups) {
+      expect(where(r => r.connected.join('/') === group.label)).toHaveLength(group.count)
+      expect(selectResults(list, { ...EMPTY_FILTER, ...group.filter }).length).toBe(group.count)
+    }
+    expect(groupResults(list, all, 'none')).toEqual([])
+  })
+})
+
+describe('detHistogram', () => {
+  it('counts every selected result once', () => {
+    for (const maxBins of [2, 5, 24, 1000]) {
+      const bins = detHistogram(list, all, maxBins)
+      expect(bins.length).toBeLessThanOrEqual(maxBins)
+      expect(bins.reduce((sum, b) => sum + b.count, 0)).toBe(results.length)
+      for (const bin of bins) {
+        expect(bin.count).toBe(where(r => det(r) >= bin.from && det(r) <= bin.to).length)
+      }
+    }
+    expect(detHistogram(list, new Uint32Array(0))).toEqual([])
+  })
+})
+
+describe('exports', () => {
+  it('counts colorings by orbit size', () => {
+    expect(countColorings(list, all)).toBe(results.reduce((sum, r) => sum + r.orbitSize, 0))
+  })
+
+  it('writes one CSV row per result with exact minors', () => {
+    const lines = resultsToCsv(list, all).trimEnd().split('\n')
+    expect(lines[0]).toBe('attempt,c1,c2,c3,total,orbit,group,minors,coloring')
+    expect(lines).toHaveLength(results.length + 1)
+    const first = results[0]
+    expect(lines[1]).toContain(`"${first.dets.map(d => d.det).join(' ')}"`)
+    expect(lines[1].startsWith(`${first.attempt},${first.connected.join(',')},${total(first)},${first.orbitSize},`)).toBe(true)
+  })
+
+  it('writes JSON with string minors', () => {
+    const doc = resultsToJSON(list, all.subarray(0, 2))
+    expect(doc.lattice).toBe('triangle')
+    expect(doc.results).toHaveLength(2)
+    expect(doc.results[0].minors).toEqual(results[0].dets.map(d => d.det.toString()))
+    expect(doc.results[0].cells).toHaveLength(shape.length)
+  })
+})
@@ -0,0 +1,227 @@
+// 結果一覧の絞り込み・グループ分け・集計 (ヒストグラムと条件を満たす割合)
+// どれも ResultList の列だけを読むので、100 万件でも塗り分けの Map や主小行列式を作らずに済む。
+// det(L[0,0]) は resultDet の正確な値で比べる (dets の列は 2^53 を超えると近似値)。
+// 主小行列式を求め直すのは、minor[0] 以外でのグループ分けと書き出しのときだけ
+import type { ColorSystem } from './colors.ts'
+import { coloringToJSON, getLattice, type ColoredCell, type LatticeId } from './lattice.ts'
+import {
+  resultAttempt,
+  resultColors,
+  resultDet,
+  resultConnected,
+  resultInvariants,
+  resultMinors,
+  type ResultList,
+} from './resultStore.ts'
+import { formatGroup } from './smith.ts'
+
+// 値の範囲 (null は制限なし、両端を含む)
+export interface ValueRange<T extends number | bigint = number> {
+  min: T | null
+  max: T | null
+}
+
+export interface ResultFilter {
+  // det(L[0,0])
+  det: ValueRange<bigint>
+  // 連結成分数の合計
+  total: ValueRange
+  // 色ごとの連結成分数 (色 c は colors[c - 1])
+  colors: ValueRange[]
+  // 臨界群の番号 (null なら全て)
+  group: number | null
+}
+
+export const NO_RANGE = { min: null, max: null } as const
+
+export const EMPTY_FILTER: ResultFilter = { det: NO_RANGE, total: NO_RANGE, colors: [], group: null }
+
+export type ResultGrouping = 'none' | 'minor' | 'signature'
+
+export const GROUPING_LABELS: Record<ResultGrouping, string> = {
+  none: 'グループなし',
+  minor: '小行列式の値',
+  signature: '連結成分数の組',
+}
+
+export interface ResultGroup {
+  label: string
+  count: number
+  // グループを選ぶ絞り込み (現在の絞り込みに重ねる)。絞り込みで表せない minor[i] (i > 0) は null
+  filter: Partial<ResultFilter> | null
+}
+
+export interface HistogramBin {
+  label: string
+  // [from, to] (1 つの値だけの棒なら from === to)
+  from: bigint
+  to: bigint
+  count: number
+}
+
+const inRange = <T extends number | bigint>(v: T, { min, max }: ValueRange<T>) =>
+  (min === null || v >= min) && (max === null || v <= max)
+
+const isOpen = (range: ValueRange<number | bigint>) => range.min === null && range.max === null
+
+export function isFilterActive(filter: ResultFilter): boolean {
+  return !isOpen(filter.det) || !isOpen(filter.total) || filter.colors.some(r => !isOpen(r)) || filter.group !== null
+}
+
+// 絞り込みを満たす結果の番号 (見つかった順)
+export function selectResults(list: ResultList, filter: ResultFilter): Uint32Array {
+  const c = list.columns
+  const k = c.system.k
+  const colorRanges = filter.colors.slice(0, k).map((range, j) => ({ range, j })).filter(({ range }) => !isOpen(range))
+  const checkTotal = !isOpen(filter.total)
+  const checkDet = !isOpen(filter.det)
+  const selected = new Uint32Array(list.count)
+  let size = 0
+  for (let i = 0; i < list.count; i++) {
+    if (filter.group !== null && c.groupIds[i] !== filter.group) continue
+    if (colorRanges.some(({ range, j }) => !inRange(c.connected[i * k + j], range))) continue
+    if (checkTotal) {
+      let total = 0
+      for (let j = 0; j < k; j++) total += c.connected[i * k + j]
+      if (!inRange(total, filter.total)) continue
+    }
+    if (checkDet && !inRange(resultDet(list, i), filter.det)) continue
+    selected[size++] = i
+  }
+  return selected.subarray(0, size)
+}
+
+// 主小行列式 minor[minorIndex] の値、または色ごとの連結成分数の組でまとめる (件数の多い順)
+// minor[0] は列から求まるが、それ以外は件ごとに主小行列式を求め直す
+export function groupResults(
+  list: ResultList,
+  selected: Uint32Array,
+  by: ResultGrouping,
+  minorIndex = 0
+): ResultGroup[] {
+  if (by === 'none') return []
+  const c = list.columns
+  const k = c.system.k
+  const counts = new Map<string, ResultGroup>()
+  for (const i of selected) {
+    let label: string
+    let filter: Partial<ResultFilter> | null
+    if (by === 'minor') {
+      const det = minorIndex === 0 ? resultDet(list, i) : resultMinors(list, i)[minorIndex]?.det ?? 0n
+      label = det.toString()
+      filter = minorIndex === 0 ? { det: { min: det, max: det } } : null
+    } else {
+      const signature = Array.from(c.connected.subarray(i * k, (i + 1) * k))
+      label = signature.join('/')
+      filter = { colors: signature.map(v => ({ min: v, max: v })) }
+    }
+    const entry = counts.get(label)
+    if (entry) entry.count++
+    else counts.set(label, { label, count: 1, filter })
+  }
+  return [...counts.values()].sort((a, b) => b.count - a.count)
+}
+
+// det(L[0,0]) のヒストグラム。値の種類が maxBins 以下なら値ごと、多ければ maxBins 個以下の等幅の区間に分ける
+export function detHistogram(list: ResultList, selected: Uint32Array, maxBins = 24): HistogramBin[] {
+  if (selected.length === 0) return []
+  const dets = Array.from(selected, i => resultDet(list, i))
+  const distinct = new Map<bigint, number>()
+  let min = dets[0]
+  let max = dets[0]
+  for (const v of dets) {
+    if (distinct.size <= maxBins) distinct.set(v, (distinct.get(v) ?? 0) + 1)
+    if (v < min) min = v
+    if (v > max) max = v
+  }
+  if (distinct.size <= maxBins) {
+    return [...distinct]
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([v, count]) => ({ label: v.toString(), from: v, to: v, count }))
+  }
+
+  // det は整数なので、区間も整数の端で重ならないように分ける
+  const bigBins = BigInt(maxBins)
+  const width = (max - min + bigBins) / bigBins
+  const binCount = Number((max - min) / width) + 1
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, b) => {
+    const from = min + width * BigInt(b)
+    const to = from + width - 1n < max ? from + width - 1n : max
+    return { label: `${formatDet(from)}–${formatDet(to)}`, from, to, count: 0 }
+  })
+  for (const v of dets) bins[Number((v - min) / width)].count++
+  return bins
+}
+
+// 区間の端の表記 (7 桁以上は仮数 3 桁の指数表記)
+function formatDet(v: bigint): string {
+  const digits = (v < 0n ? -v : v).toString()
+  if (digits.length < 7) return v.toString()
+  const sign = v < 0n ? '-' : ''
+  return `${sign}${digits[0]}.${digits.slice(1, 3)}e+${digits.length - 1}`
+}
+
+// 条件を満たす塗り分けの数 (対称性で削減した結果は軌道の大きさで数え直す)
+export function countColorings(list: ResultList, selected: Uint32Array): number {
+  let sum = 0
+  for (const i of selected) sum += list.columns.orbit[i]
+  return sum
+}
+
+// CSV (1 行 1 件、塗り分けは頂点の順の色の列、主小行列式は空白区切りの正確な値)
+export function resultsToCsv(list: ResultList, selected: Uint32Array): string {
+  const c = list.columns
+  const n = c.keys.length
+  const k = c.system.k
+  const colorHeaders = Array.from({ length: k }, (_, j) => `c${j + 1}`)
+  const lines = [['attempt', ...colorHeaders, 'total', 'orbit', 'group', 'minors', 'coloring'].join(',')]
+  for (const i of selected) {
+    const connected = Array.from(c.connected.subarray(i * k, (i + 1) * k))
+    const coloring = Array.from(c.digits.subarray(i * n, (i + 1) * n), d => d + 1).join('')
+    lines.push([
+      resultAttempt(list, i),
+      ...connected,
+      connected.reduce((sum, v) => sum + v, 0),
+      c.orbit[i],
+      `"${formatGroup(c.groups[c.groupIds[i]])}"`,
+      `"${resultMinors(list, i).map(d => d.det.toString()).join(' ')}"`,
+      coloring
+    ].join(','))
+  }
+  return lines.join('\n') + '\n'
+}
+
+// JSON での書き出し (主小行列式は正確な値を求め直して文字列にする)
+export interface ResultsDocument {
+  lattice: LatticeId
+  colorSystem: ColorSystem
+  criteria: string
+  seed: number | null
+  results: {
+    attempt: string
+    cells: ColoredCell[]
+    connected: number[]
+    orbit: number
+    group: string
+    minors: string[]
+  }[]
+}
+
+export function resultsToJSON(list: ResultList, selected: Uint32Array): ResultsDocument {
+  const c = list.columns
+  const lattice = getLattice(c.lattice)
+  return {
+    lattice: c.lattice,
+    colorSystem: c.system,
+    criteria: c.criteria,
+    seed: c.seed,
+    results: Array.from(selected, i => ({
+      attempt: resultAttempt(list, i).toString(),
+      cells: coloringToJSON(resultColors(list, i), lattice),
+      connected: resultConnected(list, i),
+      orbit: c.orbit[i],
+      group: formatGroup(resultInvariants(list, i)),
+      minors: resultMinors(list, i).map(d => d.det.toString())
+    }))
+  }
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_COLOR_SYSTEM } from './colors.ts'
+import { createSearchContext, searchChunk } from './engine.ts'
+import { planExhaustive } from './exhaustive.ts'
+import { generateShape } from './generators.ts'
+import { getLattice } from './lattice.ts'
+import {
+  allResults,
+  appendResults,
+  createResultList,
+  materializeResult,
+  normalizeStoredResultList,
+  packResults,
+  resultDet,
+  resultListFromStored,
+  resultListToStored,
+  sortResults,
+  type ResultList,
+} from './resultStore.ts'
+import type { SearchResult } from './search.ts'
+
+const lattice = getLattice('triangle')
+const shape = generateShape(lattice, 'trapezoid', { a: 4, h: 1 }, { i: 0, j: 0 })
+const keys = shape.map(lattice.key)
+const spec = { keys, system: DEFAULT_COLOR_SYSTEM, lattice: 'triangle' as const, criteria: 'minors != 0', seed: null }
+
+// 7 セルの台形を全探索した結果
+const results: SearchResult[] = []
+const ctx = createSearchContext(lattice, shape, DEFAULT_COLOR_SYSTEM)
+const plan = planExhaustive(shape.length, ctx.k)
+for (let chunk = 0; chunk < plan.chunkCount; chunk++) {
+  searchChunk(ctx, plan.prefixDigits, chunk, { onResult: r => results.push(r), onProgress: () => {} })
+}
+
+const buildList = (items: SearchResult[]) => appendResults(createResultList(spec), packResults(items, keys, ctx.k))
+
+// 比較しやすいように SearchResult の値をそろえる
+const plain = (r: SearchResult) => ({
+  colors: [...r.colors],
+  dets: r.dets,
+  attempt: r.attempt,
+  connected: [...r.connected],
+  orbitSize: r.orbitSize,
+  invariants: r.invariants
+})
+
+// det(L[0,0]) だけを差し替えた結果 (2^53 を超える値の確認用)
+const withDet = (r: SearchResult, det: bigint): SearchResult => ({ ...r, dets: [{ i: 0, det }, ...r.dets.slice(1)] })
+
+describe('ResultList', () => {
+  it('restores packed results', () => {
+    expect(results.length).toBeGreaterThan(100)
+    const list = buildList(results)
+    expect(list.count).toBe(results.length)
+    results.forEach((r, i) => {
+      expect(plain(materializeResult(list, i))).toEqual(plain(r))
+    })
+  })
+
+  it('appends without changing earlier views', () => {
+    let list = createResultList(spec)
+    const views: ResultList[] = []
+    // 初期容量 (1024 件) を超えて列を伸ばす
+    for (let round = 0; round < 8; round++) {
+      list = appendResults(list, packResults(results, keys, ctx.k))
+      views.push(list)
+    }
+    expect(list.count).toBe(8 * results.length)
+    expect(list.count).toBeGreaterThan(1024)
+    views.forEach((view, round) => {
+      expect(view.count).toBe((round + 1) * results.length)
+      expect(plain(materializeResult(view, view.count - 1))).toEqual(plain(results[results.length - 1]))
+    })
+  })
+
+  it('keeps determinants beyond 2^53 exact', () => {
+    const big = 2n ** 60n
+    const list = buildList([withDet(results[0], big + 1n), withDet(results[1], big), withDet(results[2], -big - 1n)])
+    expect(resultDet(list, 0)).toBe(big + 1n)
+    expect(resultDet(list, 1)).toBe(big)
+    expect(Array.from(sortResults(list, allResults(list), 'det', true))).toEqual([2, 1, 0])
+    expect(Array.from(sortResults(list, allResults(list), 'det', false))).toEqual([0, 1, 2])
+  })
+})
+
+describe('sortResults', () => {
+  it('sorts stably by column values', () => {
+    const list = buildList(results)
+    const total = (i: number) => results[i].connected.reduce((sum, c) => sum + c, 0)
+    for (const ascending of [true, false]) {
+      const sorted = Array.from(sortResults(list, allResults(list), 'total', ascending))
+      const expected = results.map((_, i) => i).sort((a, b) => (total(a) - total(b)) * (ascending ? 1 : -1) || a - b)
+      expect(sorted).toEqual(expected)
+    }
+    const byDet = Array.from(sortResults(list, allResults(list), 'det', true), i => results[i].dets[0].det)
+    expect(byDet).toEqual(results.map(r => r.dets[0].det).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0)))
+    const byColor = Array.from(sortResults(list, allResults(list), 2, false), i => results[i].connected[1])
+    expect(byColor).toEqual([...byColor].sort((a, b) => b - a))
+  })
+})
+
+describe('stored result lists', () => {
+  it('round-trips through JSON', () => {
+    const list = buildList([...results, withDet(results[0], 2n ** 70n)])
+    const stored = normalizeStoredResultList(JSON.parse(JSON.stringify(resultListToStored(list))))
+    const restored = resultListFromStored(stored)
+    expect(restored.count).toBe(list.count)
+    for (let i = 0; i < list.count; i++) {
+      expect(plain(materializeResult(restored, i))).toEqual(plain(materializeResult(list, i)))
+      expect(resultDet(restored, i)).toBe(resultDet(list, i))
+    }
+  })
+
+  it('rejects columns that do not match the count', () => {
+    const stored = resultListToStored(buildList(results.slice(0, 3)))
+    expect(() => normalizeStoredResultList(null)).toThrow('not an object')
+    expect(() => normalizeStoredResultList({ ...stored, lattice: 'pentagon' })).toThrow('unknown result lattice')
+    expect(() => normalizeStoredResultList({ ...stored, digits: stored.digits.slice(1) })).toThrow('result digits')
+    expect(() => normalizeStoredResultList({ ...stored, digits: stored.digits.replace(/^./, '7') })).toThrow('result digits')
+    expect(() => normalizeStoredResultList({ ...stored, connected: stored.connected.slice(1) })).toThrow('result components')
+    expect(() => normalizeStoredResultList({ ...stored, orbit: [1, 1] })).toThrow('orbit sizes')
+    expect(() => normalizeStoredResultList({ ...stored, dets: undefined })).toThrow('result determinants')
+    expect(() => normalizeStoredResultList({ ...stored, largeDets: undefined })).toThrow('exact result determinants')
+    expect(() => normalizeStoredResultList({ ...stored, largeDets: [[5, '1']] })).toThrow('exact result determinants')
+    expect(() => normalizeStoredResultList({ ...stored, groupIds: [0, 0, stored.groups.length] })).toThrow('group ids')
+  })
+})
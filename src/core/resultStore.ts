@@ -0,0 +1,431 @@
+// 探索結果のコンパクトな保存
+// 1 件あたり塗り分けの桁 (n バイト)・色ごとの連結成分数・軌道の大きさ・試行番号・臨界群の番号と
+// det(L[0,0]) の近似値 (絞り込みと集計用) だけを列ごとの型付き配列に持ち、
+// 塗り分けの Map や正確な主小行列式は表示などで必要になったときに作る。
+// 列は追記専用で、ResultList は先頭 count 件を指す (追記しても古い ResultList の見え方は変わらない)
+import { normalizeColorSystem, type Color, type ColorSystem } from './colors.ts'
+import { LATTICES, getLattice, type LatticeId } from './lattice.ts'
+import { computeMinorDets, type MinorDet, type SearchResult } from './search.ts'
+import { compareGroups } from './smith.ts'
+
+// ワーカーからまとめて送る結果 (count 件分の列)
+export interface ResultBatch {
+  count: number
+  // 件ごとに n 桁 (色 - 1)
+  digits: Uint8Array
+  // 件ごとに k 個
+  connected: Uint32Array
+  orbit: Uint32Array
+  // NaN なら digits の k 進インデックス + 1 (安全な整数に収まらないとき)
+  attempts: Float64Array
+  // det(L[0,0]) (2^53 を超えると近似値)
+  dets: Float64Array
+  // |det(L[0,0])| が 2^53 以上の件の正確な値 (バッチ内の番号, 値)
+  largeDets: [number, bigint][]
+  // 臨界群の不変因子 (カンマ区切り)
+  groups: string[]
+}
+
+interface ResultColumns {
+  // 頂点の順に並べたセルのキー (全ての結果で共通)
+  keys: string[]
+  // 探索したときの色体系と格子 (主小行列式を求め直すのに使う)
+  system: ColorSystem
+  lattice: LatticeId
+  criteria: string
+  seed: number | null
+  capacity: number
+  digits: Uint8Array
+  connected: Uint32Array
+  orbit: Uint32Array
+  attempts: Float64Array
+  dets: Float64Array
+  // dets が近似値の件の正確な値 (結果の番号 → det(L[0,0]))
+  largeDets: Map<number, bigint>
+  groupIds: Uint32Array
+  // 臨界群の番号 → 不変因子
+  groups: bigint[][]
+  groupIndex: Map<string, number>
+}
+
+export interface ResultList {
+  columns: ResultColumns
+  count: number
+}
+
+export interface ResultListSpec {
+  keys: string[]
+  system: ColorSystem
+  lattice: LatticeId
+  criteria: string
+  seed: number | null
+}
+
+// 表の並べ替えの列 (数値は色ごとの連結成分数)
+export type ResultSortKey = 'attempt' | 'total' | 'orbit' | 'group' | 'det' | number
+
+const INITIAL_CAPACITY = 1024
+// 並べ替えで (値, 番号) を 値 × PACK + 番号 に詰められる範囲 (積が 2^53 未満になる)
+const PACK = 2 ** 21
+const MAX_PACKED_VALUE = 2 ** 31
+
+export function createResultList(spec: ResultListSpec): ResultList {
+  const { keys, system } = spec
+  return {
+    columns: {
+      ...spec,
+      capacity: INITIAL_CAPACITY,
+      digits: new Uint8Array(INITIAL_CAPACITY * keys.length),
+      connected: new Uint32Array(INITIAL_CAPACITY * system.k),
+      orbit: new Uint32Array(INITIAL_CAPACITY),
+      attempts: new Float64Array(INITIAL_CAPACITY),
+      dets: new Float64Array(INITIAL_CAPACITY),
+      largeDets: new Map(),
+      groupIds: new Uint32Array(INITIAL_CAPACITY),
+      groups: [],
+      groupIndex: new Map()
+    },
+    count: 0
+  }
+}
+
+// 大きさを変えた型付き配列 (先頭をコピー)
+function grow<T extends Uint8Array | Uint32Array | Float64Array>(array: T, length: number): T {
+  const next = new (array.constructor as new (length: number) => T)(length)
+  next.set(array)
+  return next
+}
+
+// det の列の値がそのまま正確な整数か (2^53 以上は丸められている可能性がある)
+export const isExactDet = (value: number) => Math.abs(value) < 2 ** 53
+
+// SearchResult の並びを列にまとめる (keys は結果の塗り分けのキーの並び)
+export function packResults(results: SearchResult[], keys: string[], k: number): ResultBatch {
+  const n = keys.length
+  const batch: ResultBatch = {
+    count: results.length,
+    digits: new Uint8Array(results.length * n),
+    connected: new Uint32Array(results.length * k),
+    orbit: new Uint32Array(results.length),
+    attempts: new Float64Array(results.length),
+    dets: new Float64Array(results.length),
+    largeDets: [],
+    groups: []
+  }
+  results.forEach((result, r) => {
+    keys.forEach((key, i) => {
+      batch.digits[r * n + i] = (result.colors.get(key) ?? 1) - 1
+    })
+    for (let c = 0; c < k; c++) batch.connected[r * k + c] = result.connected[c] ?? 0
+    batch.orbit[r] = result.orbitSize
+    batch.attempts[r] = result.attempt <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(result.attempt) : NaN
+    const det = result.dets[0]?.det ?? 0n
+    batch.dets[r] = Number(det)
+    if (!isExactDet(batch.dets[r])) batch.largeDets.push([r, det])
+    batch.groups.push(result.invariants.join(','))
+  })
+  return batch
+}
+
+// 末尾に追記した ResultList を返す (同じ list から何度呼んでも同じ結果になる)
+export function appendResults(list: ResultList, batch: ResultBatch): ResultList {
+  const c = list.columns
+  const n = c.keys.length
+  const k = c.system.k
+  const count = list.count + batch.count
+  if (count > c.capacity) {
+    let capacity = c.capacity
+    while (capacity < count) capacity *= 2
+    c.digits = grow(c.digits, capacity * n)
+    c.connected = grow(c.connected, capacity * k)
+    c.orbit = grow(c.orbit, capacity)
+    c.attempts = grow(c.attempts, capacity)
+    c.dets = grow(c.dets, capacity)
+    c.groupIds = grow(c.groupIds, capacity)
+    c.capacity = capacity
+  }
+  c.digits.set(batch.digits, list.count * n)
+  c.connected.set(batch.connected, list.count * k)
+  c.orbit.set(batch.orbit, list.count)
+  c.attempts.set(batch.attempts, list.count)
+  c.dets.set(batch.dets, list.count)
+  for (const [r, det] of batch.largeDets) c.largeDets.set(list.count + r, det)
+  batch.groups.forEach((group, r) => {
+    let id = c.groupIndex.get(group)
+    if (id === undefined) {
+      id = c.groups.length
+      c.groupIndex.set(group, id)
+      c.groups.push(group === '' ? [] : group.split(',').map(BigInt))
+    }
+    c.groupIds[list.count + r] = id
+  })
+  return { columns: c, count }
+}
+
+export function resultColors(list: ResultList, index: number): Map<string, Color> {
+  const { keys, digits } = list.columns
+  const n = keys.length
+  return new Map(keys.map((key, i) => [key, digits[index * n + i] + 1]))
+}
+
+export function resultConnected(list: ResultList, index: number): number[] {
+  const k = list.columns.system.k
+  return Array.from(list.columns.connected.subarray(index * k, (index + 1) * k))
+}
+
+export function resultOrbit(list: ResultList, index: number): number {
+  return list.columns.orbit[index]
+}
+
+export function resultAttempt(list: ResultList, index: number): bigint {
+  const { keys, digits, attempts, system } = list.columns
+  if (!Number.isNaN(attempts[index])) return BigInt(attempts[index])
+  const n = keys.length
+  const base = BigInt(system.k)
+  let value = 0n
+  for (let i = n - 1; i >= 0; i--) value = value * base + BigInt(digits[index * n + i])
+  return value + 1n
+}
+
+// det(L[0,0]) の正確な値
+export function resultDet(list: ResultList, index: number): bigint {
+  return list.columns.largeDets.get(index) ?? BigInt(list.columns.dets[index])
+}
+
+export function resultGroupId(list: ResultList, index: number): number {
+  return list.columns.groupIds[index]
+}
+
+export function resultInvariants(list: ResultList, index: number): bigint[] {
+  return list.columns.groups[list.columns.groupIds[index]]
+}
+
+// 主小行列式 (探索したときの色体系で求め直す)
+export function resultMinors(list: ResultList, index: number): MinorDet[] {
+  const { system, lattice } = list.columns
+  return computeMinorDets(resultColors(list, index), system, getLattice(lattice))
+}
+
+// 1 件を SearchResult に戻す (図の出力など)
+export function materializeResult(list: ResultList, index: number): SearchResult {
+  return {
+    colors: resultColors(list, index),
+    dets: resultMinors(list, index),
+    attempt: resultAttempt(list, index),
+    connected: resultConnected(list, index),
+    orbitSize: resultOrbit(list, index),
+    invariants: resultInvariants(list, index),
+    criteria: list.columns.criteria,
+    seed: list.columns.seed
+  }
+}
+
+// 臨界群ごとの件数 (群の番号 → 件数)
+export function countGroups(list: ResultList): number[] {
+  const counts = new Array<number>(list.columns.groups.length).fill(0)
+  for (let i = 0; i < list.count; i++) counts[list.columns.groupIds[i]]++
+  return counts
+}
+
+// 全ての結果の番号
+export function allResults(list: ResultList): Uint32Array {
+  const indices = new Uint32Array(list.count)
+  for (let i = 0; i < list.count; i++) indices[i] = i
+  return indices
+}
+
+// 結果の番号の配列 selected を表の並び順にした新しい配列
+// 列の値を Float64Array に取り出し、値が小さな整数なら (値, 番号) を 1 つの数に詰めて比較関数なしで並べる
+export function sortResults(list: ResultList, selected: Uint32Array, key: ResultSortKey, ascending: boolean): Uint32Array {
+  const c = list.columns
+  const { count } = list
+  const n = c.keys.length
+  const k = c.system.k
+
+  if (key === 'det' && c.largeDets.size > 0) {
+    // 近似値では大きな det の順序が崩れるので正確な値で比べる
+    const exact = Array.from(selected, i => resultDet(list, i))
+    const sign = ascending ? 1 : -1
+    const positions = Array.from(selected.keys())
+      .sort((a, b) => (exact[a] < exact[b] ? -sign : exact[a] > exact[b] ? sign : selected[a] - selected[b]))
+    return Uint32Array.from(positions, p => selected[p])
+  }
+
+  const values = new Float64Array(count)
+  switch (key) {
+    case 'attempt':
+      // 桁から求める試行番号は浮動小数点の近似 (順序は保たれる)
+      for (let i = 0; i < count; i++) {
+        let value = c.attempts[i]
+        if (Number.isNaN(value)) {
+          value = 0
+          for (let d = n - 1; d >= 0; d--) value = value * k + c.digits[i * n + d]
+        }
+        values[i] = value
+      }
+      break
+    case 'total':
+      for (let i = 0; i < count; i++) {
+        let sum = 0
+        for (let j = 0; j < k; j++) sum += c.connected[i * k + j]
+        values[i] = sum
+      }
+      break
+    case 'orbit':
+      values.set(c.orbit.subarray(0, count))
+      break
+    case 'det':
+      values.set(c.dets.subarray(0, count))
+      break
+    case 'group': {
+      const order = c.groups.map((_, id) => id).sort((a, b) => compareGroups(c.groups[a], c.groups[b]))
+      const rank = new Float64Array(c.groups.length)
+      order.forEach((id, r) => { rank[id] = r })
+      for (let i = 0; i < count; i++) values[i] = rank[c.groupIds[i]]
+      break
+    }
+    default:
+      for (let i = 0; i < count; i++) values[i] = key <= k ? c.connected[i * k + key - 1] : 0
+  }
+
+  const size = selected.length
+  const sorted = Uint32Array.from(selected)
+
+  // 同じ値は見つかった順
+  let min = Infinity
+  let max = -Infinity
+  let packable = count < PACK
+  for (let j = 0; j < size && packable; j++) {
+    const v = values[sorted[j]]
+    packable = Number.isInteger(v)
+    if (v < min) min = v
+    if (v > max) max = v
+  }
+  if (packable && max - min < MAX_PACKED_VALUE) {
+    const packed = new Float64Array(size)
+    for (let j = 0; j < size; j++) {
+      const i = sorted[j]
+      packed[j] = (ascending ? values[i] - min : max - values[i]) * PACK + i
+    }
+    packed.sort()
+    for (let j = 0; j < size; j++) sorted[j] = packed[j] % PACK
+    return sorted
+  }
+  const sign = ascending ? 1 : -1
+  return sorted.sort((a, b) => (values[a] - values[b]) * sign || a - b)
+}
+
+// 保存形式 (JSON 互換)。digits は 1 件 n 文字の数字を連ねた文字列
+export interface StoredResultList extends ResultListSpec {
+  count: number
+  digits: string
+  connected: number[]
+  orbit: number[]
+  attempts: (number | null)[]
+  dets: number[]
+  // |det(L[0,0])| が 2^53 以上の件の正確な値 (結果の番号, 10 進の文字列)
+  largeDets: [number, string][]
+  groups: string[]
+  groupIds: number[]
+}
+
+// ResultList は変化しないので、自動保存のたびに作り直さないよう覚えておく
+const storedCache = new WeakMap<ResultList, StoredResultList>()
+
+export function resultListToStored(list: ResultList): StoredResultList {
+  const cached = storedCache.get(list)
+  if (cached) return cached
+  const c = list.columns
+  const { count } = list
+  const n = c.keys.length
+  // 桁 d を文字 '0' + d にする
+  const digits = new TextDecoder().decode(c.digits.subarray(0, count * n).map(d => d + 48))
+  const stored: StoredResultList = {
+    keys: c.keys,
+    system: c.system,
+    lattice: c.lattice,
+    criteria: c.criteria,
+    seed: c.seed,
+    count,
+    digits,
+    connected: Array.from(c.connected.subarray(0, count * c.system.k)),
+    orbit: Array.from(c.orbit.subarray(0, count)),
+    attempts: Array.from(c.attempts.subarray(0, count), a => (Number.isNaN(a) ? null : a)),
+    dets: Array.from(c.dets.subarray(0, count)),
+    largeDets: [...c.largeDets].filter(([i]) => i < count).map(([i, det]) => [i, det.toString()]),
+    groups: c.groups.map(g => g.join(',')),
+    groupIds: Array.from(c.groupIds.subarray(0, count))
+  }
+  storedCache.set(list, stored)
+  return stored
+}
+
+const isCountArray = (value: unknown, length: number): value is number[] =>
+  Array.isArray(value) && value.length === length && value.every(v => Number.isInteger(v) && v >= 0)
+
+// 外部から読み込んだ保存形式を検証して整える (列の長さが count・色数・セル数と合わなければ Error)
+export function normalizeStoredResultList(value: unknown): StoredResultList {
+  const v = value as Partial<StoredResultList> | null
+  if (!v || typeof v !== 'object') throw new Error('results are not an object')
+  const { keys, count, digits, groups } = v
+  if (!Array.isArray(keys) || !keys.every(key => typeof key === 'string')) throw new Error('result keys are missing')
+  if (typeof v.lattice !== 'string' || !(v.lattice in LATTICES)) throw new Error(`unknown result lattice: ${v.lattice}`)
+  if (typeof count !== 'number' || !Number.isInteger(count) || count < 0) throw new Error(`invalid result count: ${count}`)
+  const system = normalizeColorSystem(v.system)
+  const n = keys.length
+  const k = system.k
+  if (typeof digits !== 'string' || digits.length !== count * n || !new RegExp(`^[0-${k - 1}]*$`).test(digits)) {
+    throw new Error(`result digits do not match ${count} results of ${n} cells with ${k} colors`)
+  }
+  if (!isCountArray(v.connected, count * k)) throw new Error(`result components do not match ${count} results with ${k} colors`)
+  if (!isCountArray(v.orbit, count)) throw new Error(`result orbit sizes do not match ${count} results`)
+  if (!Array.isArray(v.attempts) || v.attempts.length !== count || !v.attempts.every(a => a === null || Number.isInteger(a))) {
+    throw new Error(`result attempts do not match ${count} results`)
+  }
+  if (!Array.isArray(v.dets) || v.dets.length !== count || !v.dets.every(Number.isFinite)) {
+    throw new Error(`result determinants do not match ${count} results`)
+  }
+  if (!(Array.isArray(v.largeDets) && v.largeDets.every(entry =>
+    Array.isArray(entry) && Number.isInteger(entry[0]) && entry[0] >= 0 && entry[0] < count &&
+    typeof entry[1] === 'string' && /^-?\d+$/.test(entry[1])
+  ))) {
+    throw new Error('invalid exact result determinants')
+  }
+  if (!Array.isArray(groups) || !groups.every(g => typeof g === 'string' && /^(\d+(,\d+)*)?$/.test(g))) {
+    throw new Error('invalid result critical groups')
+  }
+  if (!isCountArray(v.groupIds, count) || !v.groupIds.every(id => id < groups.length)) {
+    throw new Error(`result group ids do not match ${count} results`)
+  }
+  return {
+    keys,
+    system,
+    lattice: v.lattice,
+    criteria: typeof v.criteria === 'string' ? v.criteria : '',
+    seed: typeof v.seed === 'number' ? v.seed : null,
+    count,
+    digits,
+    connected: v.connected,
+    orbit: v.orbit,
+    attempts: v.attempts,
+    dets: v.dets,
+    largeDets: v.largeDets,
+    groups,
+    groupIds: v.groupIds
+  }
+}
+
+export function resultListFromStored(stored: StoredResultList): ResultList {
+  const { keys, system, lattice, criteria, seed, count } = stored
+  const digits = new TextEncoder().encode(stored.digits).map(d => d - 48)
+  return appendResults(createResultList({ keys, system, lattice, criteria, seed }), {
+    count,
+    digits,
+    connected: Uint32Array.from(stored.connected),
+    orbit: Uint32Array.from(stored.orbit),
+    attempts: Float64Array.from(stored.attempts, a => a ?? NaN),
+    dets: Float64Array.from(stored.dets),
+    largeDets: stored.largeDets.map(([i, det]) => [i, BigInt(det)]),
+    groups: stored.groupIds.map(id => stored.groups[id])
+  })
+}
@@ -0,0 +1,112 @@
+// 探索エンジンの共通処理 (メインスレッドと Web Worker の両方から使う)
+import { weightTable, type Color, type ColorSystem } from './colors.ts'
+import { principalMinors } from './determinant.ts'
+import type { CellCoord, ConnectedCounts, Lattice } from './lattice.ts'
+import type { Random } from './random.ts'
+
+export interface MinorDet {
+  i: number
+  det: bigint
+}
+
+export interface SearchResult {
+  colors: Map<string, Color>
+  dets: MinorDet[]
+  // 全探索では k 進インデックス + 1, ランダム探索では生成番号
+  attempt: bigint
+  connected: ConnectedCounts
+  // 対称性で同一視される塗り分けの数 (削減なしなら 1)
+  orbitSize: number
+  // 臨界群の不変因子 (頂点 0 を除いたラプラシアンの Smith 標準形, 1 は除く)
+  invariants: bigint[]
+  // 探索条件 (criteria.ts の式)
+  criteria: string
+  // ランダム探索・局所探索のシード (全探索では null)
+  seed: number | null
+}
+
+export interface ColoredVertex {
+  key: string
+  coord: CellCoord
+  color: Color
+}
+
+// 塗り分けからラプラシアンを構築 (頂点の順番は colorMap の挿入順)
+export function buildColoredLaplacian(
+  colorMap: Map<string, Color>,
+  system: ColorSystem,
+  lattice: Lattice
+): { matrix: number[][]; vertices: ColoredVertex[] } {
+  const weights = weightTable(system)
+  const vertices: ColoredVertex[] = []
+  const indexOf = new Map<string, number>()
+  colorMap.forEach((color, key) => {
+    if (color !== 0 && color <= system.k) {
+      indexOf.set(key, vertices.length)
+      vertices.push({ key, coord: lattice.parseKey(key), color })
+    }
+  })
+
+  const n = vertices.length
+  const mat: number[][] = Array(n).fill(null).map(() => Array(n).fill(0))
+  for (let i = 0; i < n; i++) {
+    const ti = vertices[i]
+    for (const neighbor of lattice.neighbors(ti.coord)) {
+      const j = indexOf.get(lattice.key(neighbor))
+      if (j === undefined) continue
+      const w = weights[ti.color - 1][vertices[j].color - 1]
+      mat[i][j] = -w
+      mat[i][i] += w
+    }
+  }
+
+  return { matrix: mat, vertices }
+}
+
+// 頂点ラベル v{i}(セルのキー)
+export function vertexLabel(v: ColoredVertex, i: number): string {
+  return `v${i}(${v.key})`
+}
+
+// 小行列式を計算するヘルパー
+export function computeMinorDets(colorMap: Map<string, Color>, system: ColorSystem, lattice: Lattice): MinorDet[] {
+  const { matrix } = buildColoredLaplacian(colorMap, system, lattice)
+  if (matrix.length <= 1) return []
+  return principalMinors(matrix).map((det, i) => ({ i, det }))
+}
+
+// 優先度スコアを計算（各色の連結成分数の積 W × B × G × ...、小さいほど優先）
+export function computePriorityScore(connected: ConnectedCounts): number {
+  // 積が小さい = どれかの色がまとまっている = 情報量が多い
+  return connected.reduce((product, count) => product * count, 1)
+}
+
+// 桁配列 (色 - 1) から色配列を生成
+export function digitsToColors(digits: number[], targetShape: CellCoord[], lattice: Lattice): Map<string, Color> {
+  const newColors = new Map<string, Color>()
+  targetShape.forEach((coord, i) => {
+    newColors.set(lattice.key(coord), digits[i] + 1)
+  })
+  return newColors
+}
+
+// ランダムに色を生成
+export function randomizeColors(
+  targetShape: CellCoord[],
+  currentColors: Map<string, Color>,
+  k: number,
+  lattice: Lattice,
+  random: Random
+): Map<string, Color> {
+  const newColors = new Map<string, Color>()
+  targetShape.forEach(coord => {
+    const key = lattice.key(coord)
+    const currentColor = currentColors.get(key)
+    if (currentColor === undefined || currentColor === 0) {
+      return
+    }
+    const randomColor = Math.floor(random() * k) + 1
+    newColors.set(key, randomColor)
+  })
+  return newColors
+}
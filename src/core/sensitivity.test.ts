@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_COLOR_SYSTEM } from './colors.ts'
+import { parseCriteria } from './criteria.ts'
+import { evaluateCandidate } from './engine.ts'
+import { computeConnectedComponents, getLattice } from './lattice.ts'
+import { buildColoredLaplacian } from './search.ts'
+import { computeSensitivity } from './sensitivity.ts'
+
+const lattice = getLattice('triangle')
+const system = DEFAULT_COLOR_SYSTEM
+// 4 セルの帯と透過のセル
+const colors = new Map([['0,0,u', 1], ['0,0,d', 2], ['1,0,u', 3], ['-1,0,d', 0], ['1,0,d', 1]])
+
+describe('computeSensitivity', () => {
+  it('recolors every colored cell to every other color', () => {
+    const cells = computeSensitivity(colors, system, lattice, parseCriteria('minors != 0'))
+    expect(cells.map(c => c.key)).toEqual(['0,0,u', '0,0,d', '1,0,u', '1,0,d'])
+    expect(cells.map(c => c.index)).toEqual([0, 1, 2, 3])
+    for (const cell of cells) {
+      expect(cell.recolorings.map(r => r.color)).toEqual([1, 2, 3].filter(c => c !== cell.color))
+      expect(cell.validCount).toBe(cell.recolorings.filter(r => r.valid).length)
+      for (const r of cell.recolorings) expect(r.dets.map(d => d.i)).toEqual([0, 1, 2, 3])
+    }
+  })
+
+  it('accepts exactly what the search accepts', () => {
+    const sources = ['minors != 0', 'equal(minors)', 'minor[2] % 2 == 1 and comp[1] <= 1', 'comps >= 3', 'minors % 3 == 0 and comp[3] == 1']
+    const outcomes = new Set<boolean>()
+    for (const source of sources) {
+      const criteria = parseCriteria(source)
+      for (const cell of computeSensitivity(colors, system, lattice, criteria)) {
+        for (const r of cell.recolorings) {
+          const recolored = new Map(colors).set(cell.key, r.color)
+          const { matrix } = buildColoredLaplacian(recolored, system, lattice)
+          const connected = computeConnectedComponents(recolored, system.k, lattice)
+          expect(r.connected).toEqual(connected)
+          expect(r.valid).toBe(evaluateCandidate(criteria, matrix, () => connected) !== null)
+          outcomes.add(r.valid)
+        }
+      }
+    }
+    // 満たす塗り替えと満たさない塗り替えの両方を確かめている
+    expect(outcomes).toEqual(new Set([true, false]))
+  })
+})
@@ -0,0 +1,58 @@
+// 感度: 1 つのセルだけ色を変えた塗り分けが探索条件を満たすか
+// 全てのセルを他の全ての色に塗り替えて主小行列式と連結成分数を求め直す (セル数 × (色数 - 1) 通り)
+import type { Color, ColorSystem } from './colors.ts'
+import type { SearchCriteria } from './criteria.ts'
+import { principalMinors } from './determinant.ts'
+import { evaluateCandidate } from './engine.ts'
+import { computeConnectedComponents, type ConnectedCounts, type Lattice } from './lattice.ts'
+import { buildColoredLaplacian, type MinorDet } from './search.ts'
+
+export interface Recoloring {
+  color: Color
+  dets: MinorDet[]
+  connected: ConnectedCounts
+  valid: boolean
+}
+
+export interface CellSensitivity {
+  // ラプラシアンの行番号
+  index: number
+  key: string
+  color: Color
+  // 他の色に塗り替えた場合 (色の順)
+  recolorings: Recoloring[]
+  // 条件を満たす塗り替えの数
+  validCount: number
+}
+
+export function computeSensitivity(
+  colors: Map<string, Color>,
+  system: ColorSystem,
+  lattice: Lattice,
+  criteria: SearchCriteria
+): CellSensitivity[] {
+  const cells: CellSensitivity[] = []
+  colors.forEach((color, key) => {
+    if (color === 0 || color > system.k) return
+    const recolorings: Recoloring[] = []
+    for (let c = 1; c <= system.k; c++) {
+      if (c === color) continue
+      // 挿入順 (頂点番号) は変わらない
+      const recolored = new Map(colors).set(key, c)
+      const { matrix } = buildColoredLaplacian(recolored, system, lattice)
+      const dets = matrix.length > 1 ? principalMinors(matrix).map((det, i) => ({ i, det })) : []
+      const connected = computeConnectedComponents(recolored, system.k, lattice)
+      // 探索と同じ判定にする (主小行列式は求めたものを渡す)
+      const valid = evaluateCandidate(criteria, matrix, () => connected, () => dets.map(d => d.det)) !== null
+      recolorings.push({ color: c, dets, connected, valid })
+    }
+    cells.push({
+      index: cells.length,
+      key,
+      color,
+      recolorings,
+      validCount: recolorings.filter(r => r.valid).length
+    })
+  })
+  return cells
+}
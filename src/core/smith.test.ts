@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { compareGroups, criticalGroup, formatGroup, smithNormalForm } from './smith.ts'
+
+// 重み 1 の無向グラフのラプラシアン
+const graphLaplacian = (n: number, edges: [number, number][]) => {
+  const matrix = Array.from({ length: n }, () => new Array<number>(n).fill(0))
+  for (const [a, b] of edges) {
+    matrix[a][b]--
+    matrix[b][a]--
+    matrix[a][a]++
+    matrix[b][b]++
+  }
+  return matrix
+}
+
+describe('smithNormalForm', () => {
+  it('returns invariant factors that divide each other', () => {
+    expect(smithNormalForm([[2, 0], [0, 3]])).toEqual([1n, 6n])
+    expect(smithNormalForm([[2, 4, 4], [-6, 6, 12], [10, -4, -16]])).toEqual([2n, 6n, 12n])
+    expect(smithNormalForm([[1, 2], [2, 4]])).toEqual([1n, 0n])
+    expect(smithNormalForm([[0, 0], [0, 0]])).toEqual([0n, 0n])
+  })
+})
+
+describe('criticalGroup', () => {
+  it('matches the sandpile groups of small graphs', () => {
+    const cycle = graphLaplacian(5, [[0, 1], [1, 2], [2, 3], [3, 4], [4, 0]])
+    expect(criticalGroup(cycle)).toEqual([5n])
+    const complete = graphLaplacian(4, [[0, 1], [0, 2], [0, 3], [1, 2], [1, 3], [2, 3]])
+    expect(criticalGroup(complete)).toEqual([4n, 4n])
+    const path = graphLaplacian(3, [[0, 1], [1, 2]])
+    expect(criticalGroup(path)).toEqual([])
+    // 非連結なら自由部分が残る
+    expect(criticalGroup(graphLaplacian(3, [[0, 1]]))).toEqual([0n])
+  })
+})
+
+describe('formatGroup', () => {
+  it('writes direct sums', () => {
+    expect(formatGroup([])).toBe('0')
+    expect(formatGroup([2n, 6n])).toBe('Z/2 × Z/6')
+    expect(formatGroup([0n])).toBe('Z')
+  })
+})
+
+describe('compareGroups', () => {
+  it('orders by rank, then factors with the free part last', () => {
+    const groups = [[0n], [2n, 4n], [3n], [2n, 2n], []]
+    expect(groups.sort(compareGroups)).toEqual([[], [3n], [0n], [2n, 2n], [2n, 4n]])
+  })
+})
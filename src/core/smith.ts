@@ -0,0 +1,100 @@
+// 整数行列の Smith 標準形と臨界群 (砂山群)
+// 臨界群はラプラシアンから 1 頂点を除いた行列の余核 Z^n / L'Z^n で、不変因子から直和分解が決まる
+
+const abs = (v: bigint) => (v < 0n ? -v : v)
+
+// Smith 標準形の対角成分 (非負, 各成分は次の成分を割り切る, 0 は末尾)
+export function smithNormalForm(matrix: number[][]): bigint[] {
+  const a = matrix.map(row => row.map(v => BigInt(v)))
+  const rows = a.length
+  const cols = rows > 0 ? a[0].length : 0
+  const diagonal: bigint[] = []
+
+  for (let t = 0; t < Math.min(rows, cols); t++) {
+    // 残りの部分行列で絶対値最小の非零成分をピボットにする
+    const findPivot = (): [number, number] | null => {
+      let best: [number, number] | null = null
+      for (let i = t; i < rows; i++) {
+        for (let j = t; j < cols; j++) {
+          if (a[i][j] !== 0n && (!best || abs(a[i][j]) < abs(a[best[0]][best[1]]))) best = [i, j]
+        }
+      }
+      return best
+    }
+    const movePivot = ([pi, pj]: [number, number]) => {
+      [a[t], a[pi]] = [a[pi], a[t]]
+      for (const row of a) [row[t], row[pj]] = [row[pj], row[t]]
+    }
+
+    const first = findPivot()
+    if (!first) break
+    movePivot(first)
+
+    for (;;) {
+      // ピボットで列 t と行 t を割り、余りが残ればより小さい余りをピボットにしてやり直す
+      let remainder: [number, number] | null = null
+      for (let i = t + 1; i < rows; i++) {
+        if (a[i][t] === 0n) continue
+        const q = a[i][t] / a[t][t]
+        for (let j = t; j < cols; j++) a[i][j] -= q * a[t][j]
+        if (a[i][t] !== 0n && (!remainder || abs(a[i][t]) < abs(a[remainder[0]][remainder[1]]))) remainder = [i, t]
+      }
+      for (let j = t + 1; j < cols; j++) {
+        if (a[t][j] === 0n) continue
+        const q = a[t][j] / a[t][t]
+        for (let i = t; i < rows; i++) a[i][j] -= q * a[i][t]
+        if (a[t][j] !== 0n && (!remainder || abs(a[t][j]) < abs(a[remainder[0]][remainder[1]]))) remainder = [t, j]
+      }
+      if (remainder) {
+        movePivot(remainder)
+        continue
+      }
+
+      // 行と列が片付いたら、ピボットが残りの全成分を割り切るようにする (割り切れない行を足して続ける)
+      let bad = -1
+      for (let i = t + 1; i < rows && bad < 0; i++) {
+        for (let j = t + 1; j < cols; j++) {
+          if (a[i][j] % a[t][t] !== 0n) {
+            bad = i
+            break
+          }
+        }
+      }
+      if (bad < 0) break
+      for (let j = t; j < cols; j++) a[t][j] += a[bad][j]
+    }
+
+    diagonal.push(abs(a[t][t]))
+  }
+
+  while (diagonal.length < Math.min(rows, cols)) diagonal.push(0n)
+  return diagonal
+}
+
+// 臨界群の不変因子 (1 を除く。0 は自由部分 Z を表す)
+// 重みが非対称だと除く頂点で群が変わりうるので、頂点番号 sink を明示する
+export function criticalGroup(laplacian: number[][], sink = 0): bigint[] {
+  if (laplacian.length <= 1) return []
+  const reduced = laplacian
+    .filter((_, i) => i !== sink)
+    .map(row => row.filter((_, j) => j !== sink))
+  return smithNormalForm(reduced).filter(d => d !== 1n)
+}
+
+// 直和分解の表記 (例: Z/2 × Z/6, 自明なら 0)
+export function formatGroup(invariants: bigint[]): string {
+  if (invariants.length === 0) return '0'
+  return invariants.map(d => (d === 0n ? 'Z' : `Z/${d}`)).join(' × ')
+}
+
+// 群の並び順: 生成元の数, 次に不変因子の辞書順 (自由部分 0 は最大として扱う)
+export function compareGroups(a: bigint[], b: bigint[]): number {
+  if (a.length !== b.length) return a.length - b.length
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) continue
+    if (a[i] === 0n) return 1
+    if (b[i] === 0n) return -1
+    return a[i] < b[i] ? -1 : 1
+  }
+  return 0
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import { determinant } from './determinant.ts'
+import { mulberry32 } from './random.ts'
+import { canSampleTrees, enumerateSpanningTrees, sampleSpanningTree, treeWeight, type SpanningTree } from './spanningTree.ts'
+
+// 重み w[i][j] の有向グラフのラプラシアン (行和 0)
+const laplacian = (w: number[][]) =>
+  w.map((row, i) => row.map((v, j) => (i === j ? row.reduce((sum, x, t) => (t === i ? sum : sum + x), 0) : -v)))
+
+const minor = (matrix: number[][], r: number) =>
+  determinant(matrix.filter((_, i) => i !== r).map(row => row.filter((_, j) => j !== r)))
+
+// 根以外の全頂点が重み非零の辺で根に辿り着く
+function isSpanningTree(tree: SpanningTree, matrix: number[][], root: number): boolean {
+  if (tree[root] !== -1) return false
+  return tree.every((_, start) => {
+    let v = start
+    for (let steps = 0; v !== root; steps++) {
+      const parent = tree[v]
+      if (parent < 0 || steps >= tree.length || matrix[v][parent] === 0) return false
+      v = parent
+    }
+    return true
+  })
+}
+
+const weights = [
+  [0, 2, 1, 0],
+  [1, 0, 3, 1],
+  [0, 1, 0, 2],
+  [4, 0, 1, 0],
+]
+const matrix = laplacian(weights)
+
+describe('enumerateSpanningTrees', () => {
+  it('sums tree weights to the principal minor at every root', () => {
+    for (let root = 0; root < matrix.length; root++) {
+      const trees = enumerateSpanningTrees(matrix, root)!
+      for (const tree of trees) expect(isSpanningTree(tree, matrix, root)).toBe(true)
+      expect(new Set(trees.map(t => t.join())).size).toBe(trees.length)
+      expect(trees.reduce((sum, tree) => sum + treeWeight(tree, matrix), 0n)).toBe(minor(matrix, root))
+    }
+  })
+
+  it('also holds with negative weights', () => {
+    const signed = laplacian([[0, -1, 2], [1, 0, -3], [2, 1, 0]])
+    const trees = enumerateSpanningTrees(signed, 1)!
+    expect(trees.reduce((sum, tree) => sum + treeWeight(tree, signed), 0n)).toBe(minor(signed, 1))
+  })
+
+  it('gives up beyond the enumeration limit', () => {
+    // 完全グラフ K_10 の根つき全域木は 10^8 個
+    const complete = laplacian(Array.from({ length: 10 }, (_, i) => Array.from({ length: 10 }, (_, j) => (i === j ? 0 : 1))))
+    expect(enumerateSpanningTrees(complete, 0)).toBeNull()
+  })
+})
+
+describe('sampleSpanningTree', () => {
+  it('checks weights and reachability before sampling', () => {
+    expect(canSampleTrees(matrix, 0)).toBe(true)
+    expect(canSampleTrees(laplacian([[0, -1], [1, 0]]), 0)).toBe(false)
+    // 頂点 2 から根 0 へ向かう辺がない
+    expect(canSampleTrees(laplacian([[0, 1, 0], [1, 0, 0], [0, 0, 0]]), 0)).toBe(false)
+  })
+
+  it('is reproducible for a seed', () => {
+    const draw = (seed: number) => {
+      const random = mulberry32(seed)
+      return Array.from({ length: 20 }, () => sampleSpanningTree(matrix, 2, random))
+    }
+    expect(draw(7)).toEqual(draw(7))
+    expect(draw(7)).not.toEqual(draw(8))
+  })
+
+  it('draws trees in proportion to their weight', () => {
+    const root = 0
+    const trees = enumerateSpanningTrees(matrix, root)!
+    const total = Number(minor(matrix, root))
+    const counts = new Map<string, number>()
+    const random = mulberry32(1)
+    const samples = 20_000
+    for (let i = 0; i < samples; i++) {
+      const tree = sampleSpanningTree(matrix, root, random)
+      expect(isSpanningTree(tree, matrix, root)).toBe(true)
+      counts.set(tree.join(), (counts.get(tree.join()) ?? 0) + 1)
+    }
+    for (const tree of trees) {
+      const expected = Number(treeWeight(tree, matrix)) / total
+      expect(Math.abs((counts.get(tree.join()) ?? 0) / samples - expected)).toBeLessThan(0.02)
+    }
+  })
+})
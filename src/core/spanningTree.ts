@@ -0,0 +1,114 @@
+// 重みつき全域木 (根つき有向木) のサンプリングと列挙
+// 行列木定理: ラプラシアンから根 r の行と列を除いた行列式 det(L[r,r]) は、
+// 各頂点 v ≠ r が親 u を 1 つ選んで根へ向かう木の重み Π w(v→u) の総和に等しい (w(v→u) = -L[v][u])
+import type { Random } from './random.ts'
+
+// parent[v] = v の親 (根は -1)
+export type SpanningTree = number[]
+
+// 全列挙で調べる部分木の数の上限 (超えたら打ち切る)
+export const ENUMERATION_LIMIT = 200_000
+
+// 重みが非零の出辺 (v → u, 重み w)
+function outEdges(matrix: number[][]): { to: number; weight: number }[][] {
+  return matrix.map((row, v) =>
+    row.flatMap((value, u) => (u !== v && value !== 0 ? [{ to: u, weight: -value }] : []))
+  )
+}
+
+// 重みの積を確率とするサンプリングができるか (重みが全て非負で、全頂点から根へ辿れる)
+export function canSampleTrees(matrix: number[][], root: number): boolean {
+  const edges = outEdges(matrix)
+  if (edges.some(list => list.some(e => e.weight < 0))) return false
+  // 根から辺を逆向きに辿って全頂点に届くか
+  const reached = new Set([root])
+  const stack = [root]
+  while (stack.length > 0) {
+    const u = stack.pop()!
+    edges.forEach((list, v) => {
+      if (!reached.has(v) && list.some(e => e.to === u)) {
+        reached.add(v)
+        stack.push(v)
+      }
+    })
+  }
+  return reached.size === matrix.length
+}
+
+// Wilson のアルゴリズム: 各頂点から重みに比例した酔歩を木に当たるまで続け、ループを消した経路を木に加える
+// canSampleTrees が true のときだけ呼ぶこと
+export function sampleSpanningTree(matrix: number[][], root: number, random: Random): SpanningTree {
+  const edges = outEdges(matrix)
+  const n = matrix.length
+  const inTree = new Array<boolean>(n).fill(false)
+  const next = new Array<number>(n).fill(-1)
+  inTree[root] = true
+
+  const step = (v: number) => {
+    const total = edges[v].reduce((sum, e) => sum + e.weight, 0)
+    let r = random() * total
+    for (const e of edges[v]) {
+      r -= e.weight
+      if (r < 0) return e.to
+    }
+    return edges[v][edges[v].length - 1].to
+  }
+
+  for (let start = 0; start < n; start++) {
+    // next を上書きしながら歩くと、最後の出口だけが残りループが消える
+    let v = start
+    while (!inTree[v]) {
+      next[v] = step(v)
+      v = next[v]
+    }
+    v = start
+    while (!inTree[v]) {
+      inTree[v] = true
+      v = next[v]
+    }
+  }
+
+  next[root] = -1
+  return next
+}
+
+// 木の重み Π w(v→parent[v])
+export function treeWeight(tree: SpanningTree, matrix: number[][]): bigint {
+  return tree.reduce((product, parent, v) => (parent < 0 ? product : product * BigInt(-matrix[v][parent])), 1n)
+}
+
+// 全ての根つき全域木を列挙する (探索が ENUMERATION_LIMIT を超えたら null)
+export function enumerateSpanningTrees(matrix: number[][], root: number): SpanningTree[] | null {
+  const edges = outEdges(matrix)
+  const n = matrix.length
+  const parent = new Array<number>(n).fill(-1)
+  const order = Array.from({ length: n }, (_, v) => v).filter(v => v !== root)
+  const trees: SpanningTree[] = []
+  let visited = 0
+
+  // u から親を辿って v に戻るなら閉路になる
+  const makesCycle = (v: number, u: number) => {
+    for (let w = u; w >= 0; w = parent[w]) {
+      if (w === v) return true
+    }
+    return false
+  }
+
+  const assign = (index: number): boolean => {
+    if (++visited > ENUMERATION_LIMIT) return false
+    if (index === order.length) {
+      trees.push([...parent])
+      return true
+    }
+    const v = order[index]
+    for (const { to } of edges[v]) {
+      if (makesCycle(v, to)) continue
+      parent[v] = to
+      if (!assign(index + 1)) return false
+    }
+    parent[v] = -1
+    return true
+  }
+
+  return assign(0) ? trees : null
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import { generateShape } from './generators.ts'
+import { getLattice } from './lattice.ts'
+import { buildSymmetryGroup, canonicalOrbitSize, countOrbits, findShapeAutomorphisms, type SymmetryGroup } from './symmetry.ts'
+
+const lattice = getLattice('triangle')
+const hexagon = generateShape(lattice, 'hexagon', { a: 1, b: 1, c: 1 }, { i: 0, j: 0 })
+const triangle = generateShape(lattice, 'triangle', { n: 2 }, { i: 0, j: 0 })
+const parallelogram = generateShape(lattice, 'parallelogram', { a: 2, b: 1 }, { i: 0, j: 0 })
+
+// 群の元を全て作用させて集めた軌道 (k 進インデックスの集合)
+const orbitOf = (digits: number[], group: SymmetryGroup) => {
+  const images = new Set<string>()
+  for (const { inv, shift } of group.elements) {
+    images.add(inv.map(i => (digits[i] + shift) % group.k).join(''))
+  }
+  return images
+}
+
+const allDigits = (n: number, k: number) =>
+  Array.from({ length: k ** n }, (_, index) => Array.from({ length: n }, (_, i) => Math.floor(index / k ** i) % k))
+
+describe('findShapeAutomorphisms', () => {
+  it('finds the lattice symmetries that map a shape onto itself', () => {
+    expect(findShapeAutomorphisms(lattice, hexagon)).toHaveLength(12)
+    expect(findShapeAutomorphisms(lattice, triangle)).toHaveLength(6)
+    expect(findShapeAutomorphisms(lattice, parallelogram)).toHaveLength(2)
+  })
+})
+
+describe('canonicalOrbitSize', () => {
+  for (const colorShift of [false, true]) {
+    it(`picks one representative per orbit${colorShift ? ' with color shifts' : ''}`, () => {
+      const k = 3
+      const group = buildSymmetryGroup(lattice, hexagon, k, colorShift)
+      let representatives = 0
+      let total = 0
+      for (const digits of allDigits(hexagon.length, k)) {
+        const size = canonicalOrbitSize(digits, group)
+        if (size === 0) continue
+        representatives++
+        total += size
+        expect(size).toBe(orbitOf(digits, group).size)
+      }
+      expect(total).toBe(k ** hexagon.length)
+      expect(BigInt(representatives)).toBe(countOrbits(hexagon.length, group))
+    })
+  }
+
+  it('counts necklace-like orbits with Burnside', () => {
+    // 3 色の三角形 (4 セル) を回転・鏡映で同一視: (81 + 2·9 + 3·27) / 6 = 30
+    expect(countOrbits(4, buildSymmetryGroup(lattice, triangle, 3, false))).toBe(30n)
+  })
+})
@@ -0,0 +1,149 @@
+// 対称性による探索空間の削減
+// 輪郭を保つ格子の回転・鏡映・平行移動と、色の巡回シフト (白→黒→灰→白 の k 色版) の組が作る群で
+// 塗り分けを同一視し、各軌道の代表元 (k 進インデックスが最小のもの) だけを評価する
+// 色の巡回シフトは、重みが色の差だけで決まる (シフト不変な) 場合にのみ対称性になる
+import type { CellCoord, Lattice, Point } from './lattice.ts'
+
+// 群の元: セルの置換 (逆置換で保持) と色シフト量
+export interface SymmetryElement {
+  // inv[j] = 変換後に j 番目のセルへ移ってくるセルの番号
+  inv: number[]
+  shift: number
+}
+
+export interface SymmetryGroup {
+  k: number
+  elements: SymmetryElement[]
+  // 輪郭の自己同型 (格子対称性) の数
+  shapeSymmetries: number
+  colorShift: boolean
+}
+
+const EPS = 1e-6
+
+// 格子の回転中心まわりの回転 × 鏡映 (重心に作用させる)
+export function pointTransforms(lattice: Lattice): ((p: Point) => Point)[] {
+  const { rotationCenter: center, rotationOrder } = lattice
+  const transforms: ((p: Point) => Point)[] = []
+  for (const reflect of [false, true]) {
+    for (let k = 0; k < rotationOrder; k++) {
+      const cos = Math.cos(k * 2 * Math.PI / rotationOrder)
+      const sin = Math.sin(k * 2 * Math.PI / rotationOrder)
+      transforms.push(p => {
+        const dx = (reflect ? -(p.x - center.x) : p.x - center.x)
+        const dy = p.y - center.y
+        return { x: center.x + cos * dx - sin * dy, y: center.y + sin * dx + cos * dy }
+      })
+    }
+  }
+  return transforms
+}
+
+// 重心の (y, x) の辞書順で最小のセルの番号
+function minIndex(points: Point[]): number {
+  let best = 0
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i]
+    const b = points[best]
+    if (a.y < b.y - EPS || (Math.abs(a.y - b.y) <= EPS && a.x < b.x - EPS)) best = i
+  }
+  return best
+}
+
+// 輪郭を自分自身に移す格子対称性を置換として列挙 (perm[i] = i 番目のセルの移り先)
+export function findShapeAutomorphisms(lattice: Lattice, shape: CellCoord[]): number[][] {
+  const n = shape.length
+  if (n === 0) return []
+
+  const indexOf = new Map<string, number>()
+  shape.forEach((c, i) => indexOf.set(lattice.key(c), i))
+  const centers = shape.map(lattice.centroid)
+  const anchor = centers[minIndex(centers)]
+
+  const perms: number[][] = []
+  const seen = new Set<string>()
+  for (const transform of pointTransforms(lattice)) {
+    const image = centers.map(transform)
+
+    // 平行移動で最小のセル同士を重ねる (格子の平行移動でなければ、移動先が重心にならない)
+    const m = image[minIndex(image)]
+    const dx = anchor.x - m.x
+    const dy = anchor.y - m.y
+
+    const perm: number[] = []
+    for (const p of image) {
+      const cell = lattice.cellAt({ x: p.x + dx, y: p.y + dy })
+      const j = cell ? indexOf.get(lattice.key(cell)) : undefined
+      if (j === undefined) break
+      perm.push(j)
+    }
+    if (perm.length !== n) continue
+
+    const id = perm.join(',')
+    if (seen.has(id)) continue
+    seen.add(id)
+    perms.push(perm)
+  }
+  return perms
+}
+
+export function buildSymmetryGroup(lattice: Lattice, shape: CellCoord[], k: number, colorShift: boolean): SymmetryGroup {
+  const perms = findShapeAutomorphisms(lattice, shape)
+  const shifts = colorShift ? Array.from({ length: k }, (_, s) => s) : [0]
+  const elements: SymmetryElement[] = []
+  for (const perm of perms) {
+    const inv = new Array<number>(perm.length)
+    perm.forEach((j, i) => { inv[j] = i })
+    for (const shift of shifts) {
+      elements.push({ inv, shift })
+    }
+  }
+  return { k, elements, shapeSymmetries: perms.length, colorShift }
+}
+
+// digits (各セルの色 0..k-1, 添字 i が k^i の桁) が軌道の代表元なら軌道の大きさを、そうでなければ 0 を返す
+export function canonicalOrbitSize(digits: number[], group: SymmetryGroup): number {
+  const n = digits.length
+  const k = group.k
+  let stabilizer = 0
+
+  for (const { inv, shift } of group.elements) {
+    // 上位桁から比較し、変換後の方が小さければ代表元ではない
+    let cmp = 0
+    for (let j = n - 1; j >= 0; j--) {
+      const moved = (digits[inv[j]] + shift) % k
+      if (moved !== digits[j]) {
+        cmp = moved < digits[j] ? -1 : 1
+        break
+      }
+    }
+    if (cmp < 0) return 0
+    if (cmp === 0) stabilizer++
+  }
+
+  return group.elements.length / stabilizer
+}
+
+// Burnside の補題で軌道の総数を数える
+export function countOrbits(n: number, group: SymmetryGroup): bigint {
+  const k = BigInt(group.k)
+  if (group.elements.length === 0) return k ** BigInt(n)
+
+  let sum = 0n
+  for (const { inv, shift } of group.elements) {
+    // 置換の巡回ごとに、固定される色の選び方は k 通りか 0 通り (長さ × シフトが k の倍数のとき k 通り)
+    const visited = new Array<boolean>(n).fill(false)
+    let fixed = 1n
+    for (let i = 0; i < n && fixed !== 0n; i++) {
+      if (visited[i]) continue
+      let length = 0
+      for (let j = i; !visited[j]; j = inv[j]) {
+        visited[j] = true
+        length++
+      }
+      fixed *= (length * shift) % group.k === 0 ? k : 0n
+    }
+    sum += fixed
+  }
+  return sum / BigInt(group.elements.length)
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { getLattice } from './lattice.ts'
+import { cellsInPolygon, stampAnchor, stampPolygon, type StampKind } from './tools.ts'
+
+const lattice = getLattice('triangle')
+const cell = { x: 0, y: 0, isUp: true }
+
+describe('stampAnchor', () => {
+  it('snaps to the nearest centroid or corner of the cell', () => {
+    const [a, b] = lattice.polygon(cell)
+    expect(stampAnchor(lattice, cell, lattice.centroid(cell))).toEqual(lattice.centroid(cell))
+    expect(stampAnchor(lattice, cell, { x: a.x + 0.05, y: a.y + 0.05 })).toEqual(a)
+    expect(stampAnchor(lattice, cell, { x: b.x, y: b.y - 0.1 })).toEqual(b)
+  })
+})
+
+describe('stampPolygon', () => {
+  // 格子点に置いた一辺 size のスタンプに入る三角形の数
+  const counts: [StampKind, (size: number) => number][] = [
+    ['hexagon', size => 6 * size * size],
+    ['triangle', size => size * size],
+    ['parallelogram', size => 2 * size * size],
+  ]
+  for (const [kind, count] of counts) {
+    it(`covers whole triangles with a ${kind} at a lattice point`, () => {
+      const corner = stampAnchor(lattice, cell, lattice.polygon(cell)[0])
+      for (let size = 1; size <= 4; size++) {
+        const cells = cellsInPolygon(lattice, stampPolygon(kind, size, corner))
+        expect(cells).toHaveLength(count(size))
+        expect(new Set(cells.map(lattice.key)).size).toBe(count(size))
+      }
+    })
+  }
+})
+
+describe('cellsInPolygon', () => {
+  it('selects cells by centroid on other lattices too', () => {
+    const square = getLattice('square')
+    const cells = cellsInPolygon(square, [{ x: -0.5, y: -0.5 }, { x: 2.5, y: -0.5 }, { x: 2.5, y: 1.5 }, { x: -0.5, y: 1.5 }])
+    expect(cells.map(square.key).sort()).toEqual(['0,0', '0,1', '1,0', '1,1', '2,0', '2,1'])
+    expect(cellsInPolygon(square, [{ x: 0.2, y: 0.2 }, { x: 0.8, y: 0.2 }, { x: 0.5, y: 0.8 }])).toEqual([])
+  })
+})
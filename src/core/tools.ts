@@ -0,0 +1,65 @@
+// 編集ツールの幾何: スタンプの多角形と、その内側にあるセルの選び方
+import type { CellCoord, Lattice, Point } from './lattice.ts'
+
+export type StampKind = 'hexagon' | 'triangle' | 'parallelogram'
+
+export const STAMP_LABELS: Record<StampKind, string> = {
+  hexagon: '六角形',
+  triangle: '三角形',
+  parallelogram: '平行四辺形',
+}
+
+const H = Math.sqrt(3) / 2
+const EPS = 1e-6
+
+// スタンプの基準点: ポインタに最も近い、セルの重心または頂点
+// 三角格子なら格子点に揃うので、一辺 size の六角形にちょうど 6·size² 個の三角形が入る
+export function stampAnchor(lattice: Lattice, cell: CellCoord, pointer: Point): Point {
+  const candidates = [lattice.centroid(cell), ...lattice.polygon(cell)]
+  let best = candidates[0]
+  let bestDist = Infinity
+  for (const c of candidates) {
+    const d = (c.x - pointer.x) ** 2 + (c.y - pointer.y) ** 2
+    if (d < bestDist) {
+      best = c
+      bestDist = d
+    }
+  }
+  return best
+}
+
+// スタンプの多角形 (反時計回り)。六角形は基準点が中心、三角形と平行四辺形は基準点が左下の角
+export function stampPolygon(kind: StampKind, size: number, anchor: Point): Point[] {
+  const { x, y } = anchor
+  switch (kind) {
+    case 'hexagon':
+      return Array.from({ length: 6 }, (_, i) => ({
+        x: x + size * Math.cos(i * Math.PI / 3),
+        y: y + size * Math.sin(i * Math.PI / 3)
+      }))
+    case 'triangle':
+      return [{ x, y }, { x: x + size, y }, { x: x + size / 2, y: y + size * H }]
+    case 'parallelogram':
+      return [
+        { x, y },
+        { x: x + size, y },
+        { x: x + size * 1.5, y: y + size * H },
+        { x: x + size / 2, y: y + size * H }
+      ]
+  }
+}
+
+// 凸多角形 (境界を含む) の内側に重心があるセル
+export function cellsInPolygon(lattice: Lattice, polygon: Point[]): CellCoord[] {
+  const xs = polygon.map(p => p.x)
+  const ys = polygon.map(p => p.y)
+  const min = { x: Math.min(...xs), y: Math.min(...ys) }
+  const max = { x: Math.max(...xs), y: Math.max(...ys) }
+  return lattice.cellsInRect(min, max).filter(cell => {
+    const p = lattice.centroid(cell)
+    return polygon.every((a, i) => {
+      const b = polygon[(i + 1) % polygon.length]
+      return (b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x) >= -EPS
+    })
+  })
+}
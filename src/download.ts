@@ -0,0 +1,41 @@
+// ファイルとしての保存 (ブラウザ用)
+
+export function downloadBlob(filename: string, blob: Blob): void {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  a.click()
+  // クリック直後に破棄するとダウンロードが始まらないブラウザがある
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+export function downloadText(filename: string, text: string, type = 'text/plain'): void {
+  downloadBlob(filename, new Blob([text], { type: `${type};charset=utf-8` }))
+}
+
+// SVG 文字列を幅 width ピクセルの PNG に変換する (高さは縦横比から決まる)
+export function svgToPng(svg: string, width: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }))
+    image.onload = () => {
+      URL.revokeObjectURL(url)
+      const canvas = document.createElement('canvas')
+      canvas.width = width
+      canvas.height = Math.max(1, Math.round(width * image.naturalHeight / image.naturalWidth))
+      const ctx = canvas.getContext('2d')
+      if (!ctx) {
+        reject(new Error('canvas is not supported'))
+        return
+      }
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height)
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png')
+    }
+    image.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error('SVG could not be loaded'))
+    }
+    image.src = url
+  })
+}
@@ -0,0 +1,69 @@
+// プロジェクトライブラリの保存先 (ブラウザの IndexedDB)
+import type { ProjectRecord } from './core/project.ts'
+
+const DB_NAME = 'potatriangle'
+const DB_VERSION = 1
+const PROJECTS = 'projects'
+// 最後に開いていたプロジェクトなど
+const META = 'meta'
+const LAST_PROJECT_KEY = 'lastProject'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: 'id' })
+      if (!db.objectStoreNames.contains(META)) db.createObjectStore(META)
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      dbPromise = null
+      reject(request.error)
+    }
+  })
+  return dbPromise
+}
+
+// 1 つのストアに対する操作をトランザクションの完了まで待つ
+async function withStore<T>(
+  store: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, mode)
+    const request = operation(tx.objectStore(store))
+    tx.oncomplete = () => resolve(request.result)
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+export function listProjects(): Promise<ProjectRecord[]> {
+  return withStore(PROJECTS, 'readonly', store => store.getAll() as IDBRequest<ProjectRecord[]>)
+}
+
+export function getProject(id: string): Promise<ProjectRecord | undefined> {
+  return withStore(PROJECTS, 'readonly', store => store.get(id) as IDBRequest<ProjectRecord | undefined>)
+}
+
+export async function saveProject(project: ProjectRecord): Promise<void> {
+  await withStore(PROJECTS, 'readwrite', store => store.put(project))
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  await withStore(PROJECTS, 'readwrite', store => store.delete(id))
+}
+
+export async function getLastProjectId(): Promise<string | null> {
+  const id = await withStore(META, 'readonly', store => store.get(LAST_PROJECT_KEY) as IDBRequest<string | undefined>)
+  return id ?? null
+}
+
+export async function setLastProjectId(id: string): Promise<void> {
+  await withStore(META, 'readwrite', store => store.put(id, LAST_PROJECT_KEY))
+}
@@ -0,0 +1,175 @@
+// 探索用 Web Worker: 割り当てられたチャンク・バッチを探索し、結果と進捗をメインスレッドへ送る
+// 感度 (1 セルの塗り替え) の計算もメインスレッドを止めないようここで行う
+import { searchCensusShape, type BatchSearch, type CensusEntry } from './core/census.ts'
+import {
+  createSearchContext,
+  searchChunk,
+  searchRandomBatch,
+  type SearchHooks,
+} from './core/engine.ts'
+import type { Color, ColorSystem } from './core/colors.ts'
+import { parseCriteria } from './core/criteria.ts'
+import { getLattice, type CellCoord, type LatticeId } from './core/lattice.ts'
+import { createOptimizer, type Objective, type OptimizerKind } from './core/optimize.ts'
+import { packResults, type ResultBatch } from './core/resultStore.ts'
+import type { SearchResult } from './core/search.ts'
+import { computeSensitivity, type CellSensitivity } from './core/sensitivity.ts'
+import type { SymmetryGroup } from './core/symmetry.ts'
+
+export type SearchRequest =
+  | {
+      mode: 'exhaustive'
+      lattice: LatticeId
+      shape: CellCoord[]
+      colorSystem: ColorSystem
+      // 探索条件の式 (送る前に検証済み)
+      criteria: string
+      // 担当するチャンク (上位 prefixDigits 桁の値)
+      prefixDigits: number
+      chunks: number[]
+      // 指定時は軌道の代表元だけを評価する
+      symmetry: SymmetryGroup | null
+    }
+  | {
+      mode: 'random'
+      lattice: LatticeId
+      shape: CellCoord[]
+      colorSystem: ColorSystem
+      criteria: string
+      seed: number
+      // バッチ番号 stream, stream + streamCount, ... を担当
+      stream: number
+      streamCount: number
+    }
+  | {
+      mode: 'optimize'
+      lattice: LatticeId
+      shape: CellCoord[]
+      colorSystem: ColorSystem
+      criteria: string
+      optimizer: OptimizerKind
+      objective: Objective
+      // 乱数列はシードとワーカー番号 stream で決まる
+      seed: number
+      stream: number
+    }
+  | {
+      mode: 'census'
+      lattice: LatticeId
+      colorSystem: ColorSystem
+      criteria: string
+      search: BatchSearch
+      // 担当する輪郭 (index は形の一覧での番号)
+      shapes: { index: number; cells: CellCoord[] }[]
+    }
+  | {
+      mode: 'sensitivity'
+      lattice: LatticeId
+      colorSystem: ColorSystem
+      criteria: string
+      // 塗り分け (挿入順が頂点番号)
+      colors: [string, Color][]
+    }
+
+export type SearchMessage =
+  // processed = 走査した候補数, pruned = うち連結性で枝刈りした数, evaluated = 行列式まで計算した数
+  // objective は局所探索のときの目的関数の現在値と最良値
+  | {
+      type: 'progress'
+      processed: number
+      pruned: number
+      evaluated: number
+      // 結果は列ごとにまとめて送る (セルのキーは要求の shape の順)
+      results: ResultBatch
+      objective?: { current: number; best: number }
+    }
+  // 形の一覧で 1 つの輪郭の全探索が終わった
+  | { type: 'census'; index: number; entry: CensusEntry }
+  | { type: 'sensitivity'; cells: CellSensitivity[] }
+  | { type: 'done' }
+
+// 進捗を送る間隔 (ms)
+const REPORT_INTERVAL = 200
+// 局所探索で 1 回に進める移動数
+const OPTIMIZER_STEPS = 100
+
+let pending: SearchResult[] = []
+// 結果を列にまとめるときのセルのキーの並びと色数
+let resultKeys: string[] = []
+let resultK = 0
+let processed = 0
+let pruned = 0
+let evaluated = 0
+let lastReport = Date.now()
+let objective: (() => { current: number; best: number }) | null = null
+
+const post = (message: SearchMessage) => {
+  self.postMessage(message)
+}
+
+const flush = () => {
+  const results = packResults(pending, resultKeys, resultK)
+  post({ type: 'progress', processed, pruned, evaluated, results, objective: objective?.() })
+  pending = []
+  processed = 0
+  pruned = 0
+  evaluated = 0
+  lastReport = Date.now()
+}
+
+const hooks: SearchHooks = {
+  onResult: result => {
+    pending.push(result)
+  },
+  onProgress: (p, q, e) => {
+    processed += p
+    pruned += q
+    evaluated += e
+    if (Date.now() - lastReport >= REPORT_INTERVAL) {
+      flush()
+    }
+  }
+}
+
+self.onmessage = (e: MessageEvent<SearchRequest>) => {
+  const request = e.data
+  const criteria = parseCriteria(request.criteria)
+  if (request.mode === 'sensitivity') {
+    const cells = computeSensitivity(new Map(request.colors), request.colorSystem, getLattice(request.lattice), criteria)
+    post({ type: 'sensitivity', cells })
+    return
+  }
+  if (request.mode !== 'census') {
+    const lattice = getLattice(request.lattice)
+    resultKeys = request.shape.map(lattice.key)
+    resultK = request.colorSystem.k
+  }
+  if (request.mode === 'census') {
+    const lattice = getLattice(request.lattice)
+    for (const { index, cells } of request.shapes) {
+      post({ type: 'census', index, entry: searchCensusShape(lattice, cells, request.colorSystem, criteria, request.search) })
+    }
+    post({ type: 'done' })
+  } else if (request.mode === 'exhaustive') {
+    const ctx = createSearchContext(getLattice(request.lattice), request.shape, request.colorSystem, request.symmetry, criteria)
+    for (const chunk of request.chunks) {
+      searchChunk(ctx, request.prefixDigits, chunk, hooks)
+    }
+    flush()
+    post({ type: 'done' })
+  } else if (request.mode === 'optimize') {
+    // 中断 (terminate) されるまで移動し続ける
+    const ctx = createSearchContext(getLattice(request.lattice), request.shape, request.colorSystem, null, criteria)
+    const optimizer = createOptimizer(ctx, request.optimizer, request.objective, request.seed, request.stream, hooks)
+    objective = () => ({ current: optimizer.current(), best: optimizer.best() })
+    for (;;) {
+      optimizer.run(OPTIMIZER_STEPS)
+    }
+  } else {
+    // 中断 (terminate) されるまで生成し続ける
+    const ctx = createSearchContext(getLattice(request.lattice), request.shape, request.colorSystem, null, criteria)
+    for (let batch = request.stream; ; batch += request.streamCount) {
+      searchRandomBatch(ctx, request.seed, batch, hooks)
+    }
+  }
+}